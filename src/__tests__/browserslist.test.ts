@@ -1,5 +1,21 @@
 import { describe, it, expect } from 'vitest';
-import { executeBrowserslistQuery, getBrowserslistDefaults, getBrowserslistCoverage } from '../utils/browserslist.js';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  configureBrowserslist,
+  configureBrowserslistFromEnv,
+  configureBrowserslistFromProcessEnv,
+  diffBrowserslistQueries,
+  executeBrowserslistQuery,
+  explainBrowserslistQuery,
+  formatCoverageMatrix,
+  getBrowserslistDefaults,
+  getBrowserslistCoverage,
+  getCoverageMatrix,
+  CONTINENT_REGIONS,
+} from '../utils/browserslist.js';
+import { captureDataSnapshot } from '../utils/snapshot.js';
 
 describe('Browserslist Utilities', () => {
   describe('executeBrowserslistQuery', () => {
@@ -76,6 +92,218 @@ describe('Browserslist Utilities', () => {
     });
   });
 
+  describe('browserslist options', () => {
+    it('should echo the effective options', () => {
+      const result = executeBrowserslistQuery({ query: 'defaults', options: { env: 'production' } });
+
+      expect(result.options).toEqual({
+        env: 'production',
+        mobileToDesktop: false,
+        ignoreUnknownVersions: false,
+        throwOnMissing: false,
+        dangerousExtend: false,
+      });
+    });
+
+    it('should resolve mobile versions from desktop data with mobileToDesktop', () => {
+      expect(() => executeBrowserslistQuery({ query: 'android 120' })).toThrow('Unknown version 120 of android');
+
+      const result = executeBrowserslistQuery({ query: 'android 120', options: { mobileToDesktop: true } });
+      expect(result.browsers).toEqual(['android 120']);
+      expect(result.options?.mobileToDesktop).toBe(true);
+    });
+
+    it('should skip unknown versions with ignoreUnknownVersions', () => {
+      const result = executeBrowserslistQuery({
+        query: 'android 120, firefox 100',
+        options: { ignoreUnknownVersions: true },
+      });
+
+      expect(result.browsers).toEqual(['firefox 100']);
+    });
+
+    it('should resolve the config file given by config for an empty query', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'browserslist-config-'));
+      configureBrowserslist({ configDir: dir });
+      try {
+        const config = join(dir, 'browserslist');
+        await writeFile(config, 'firefox 100\n\n[production]\nfirefox 110\n');
+
+        const result = executeBrowserslistQuery({ query: '', options: { config, env: 'production' } });
+        expect(result.browsers).toEqual(['firefox 110']);
+        expect(result.options?.config).toBe(config);
+
+        const relative = executeBrowserslistQuery({ query: '', options: { config: 'browserslist' } });
+        expect(relative.options?.config).toBe(config);
+
+        expect(() => executeBrowserslistQuery({ query: '', options: { config, env: 'staging', throwOnMissing: true } }))
+          .toThrow('Missing config for Browserslist environment `staging`');
+      } finally {
+        configureBrowserslist({ configDir: undefined });
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should select no browsers for an empty query without config or path', () => {
+      const result = executeBrowserslistQuery({ query: '  ', options: { env: 'production' } });
+
+      expect(result.browsers).toEqual([]);
+      expect(result.count).toBe(0);
+    });
+
+    it('should refuse config files outside the config directory', async () => {
+      expect(() => executeBrowserslistQuery({ query: '', options: { config: '/etc/hostname' } }))
+        .toThrow('The config option is disabled on this server');
+
+      const dir = await mkdtemp(join(tmpdir(), 'browserslist-config-'));
+      configureBrowserslist({ configDir: dir });
+      try {
+        for (const config of ['/etc/hostname', '../browserslist', join(dir, '..', 'browserslist'), dir]) {
+          expect(() => executeBrowserslistQuery({ query: '', options: { config } }))
+            .toThrow('is outside the config directory');
+        }
+      } finally {
+        configureBrowserslist({ configDir: undefined });
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should only look up configs from paths inside the config directory', async () => {
+      expect(() => executeBrowserslistQuery({ query: '', options: { path: '/etc' } }))
+        .toThrow('The path option is disabled on this server');
+
+      const dir = await mkdtemp(join(tmpdir(), 'browserslist-config-'));
+      configureBrowserslist({ configDir: dir });
+      try {
+        await mkdir(join(dir, 'app'));
+        await writeFile(join(dir, 'app', '.browserslistrc'), 'firefox 100\n');
+
+        const result = executeBrowserslistQuery({ query: '', options: { path: 'app' } });
+        expect(result.browsers).toEqual(['firefox 100']);
+        expect(result.options?.path).toBe(join(dir, 'app'));
+        expect(executeBrowserslistQuery({ query: 'defaults', options: { path: dir } }).options?.path).toBe(dir);
+
+        for (const path of ['/etc', '..', join(dir, '..', 'app')]) {
+          expect(() => executeBrowserslistQuery({ query: '', options: { path } }))
+            .toThrow('is outside the config directory');
+        }
+      } finally {
+        configureBrowserslist({ configDir: undefined });
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should take dangerousExtend from the server settings', () => {
+      configureBrowserslist({ dangerousExtend: true });
+      try {
+        expect(executeBrowserslistQuery({ query: 'defaults' }).options?.dangerousExtend).toBe(true);
+      } finally {
+        configureBrowserslist({ dangerousExtend: false });
+      }
+    });
+  });
+
+  describe('configureBrowserslistFromEnv', () => {
+    it('should only enable dangerousExtend for "true" and "1"', () => {
+      try {
+        for (const value of ['true', '1']) {
+          configureBrowserslistFromEnv({ BROWSERSLIST_DANGEROUS_EXTEND: value });
+          expect(executeBrowserslistQuery({ query: 'defaults' }).options?.dangerousExtend).toBe(true);
+        }
+        for (const value of ['false', '0', '', undefined]) {
+          configureBrowserslistFromEnv({ BROWSERSLIST_DANGEROUS_EXTEND: value });
+          expect(executeBrowserslistQuery({ query: 'defaults' }).options?.dangerousExtend).toBe(false);
+        }
+      } finally {
+        configureBrowserslist({ dangerousExtend: false });
+      }
+    });
+
+    it('should take the config directory from BROWSERSLIST_CONFIG_DIR', () => {
+      try {
+        configureBrowserslistFromEnv({ BROWSERSLIST_CONFIG_DIR: '/srv/configs' });
+        expect(executeBrowserslistQuery({ query: 'defaults', options: { config: 'app/.browserslistrc' } }).options?.config)
+          .toBe('/srv/configs/app/.browserslistrc');
+      } finally {
+        configureBrowserslist({ configDir: undefined });
+      }
+    });
+
+    it('should leave the given variables untouched', () => {
+      const env = { BROWSERSLIST_DANGEROUS_EXTEND: 'false' };
+      configureBrowserslistFromEnv(env);
+      expect(env).toEqual({ BROWSERSLIST_DANGEROUS_EXTEND: 'false' });
+    });
+  });
+
+  describe('configureBrowserslistFromProcessEnv', () => {
+    it('should unset a disabled variable so browserslist does not read it either', () => {
+      process.env.BROWSERSLIST_DANGEROUS_EXTEND = 'false';
+      try {
+        configureBrowserslistFromProcessEnv();
+        expect(process.env).not.toHaveProperty('BROWSERSLIST_DANGEROUS_EXTEND');
+      } finally {
+        delete process.env.BROWSERSLIST_DANGEROUS_EXTEND;
+      }
+    });
+
+    it('should keep an enabled variable', () => {
+      process.env.BROWSERSLIST_DANGEROUS_EXTEND = '1';
+      try {
+        configureBrowserslistFromProcessEnv();
+        expect(process.env.BROWSERSLIST_DANGEROUS_EXTEND).toBe('1');
+        expect(executeBrowserslistQuery({ query: 'defaults' }).options?.dangerousExtend).toBe(true);
+      } finally {
+        delete process.env.BROWSERSLIST_DANGEROUS_EXTEND;
+        configureBrowserslist({ dangerousExtend: false });
+      }
+    });
+  });
+
+  describe('explainBrowserslistQuery', () => {
+    it('should trace each clause of a combined query', () => {
+      const result = explainBrowserslistQuery({
+        query: 'last 2 versions, > 1%',
+      });
+
+      expect(result.steps).toHaveLength(2);
+      expect(result.steps[0].clause).toBe('last 2 versions');
+      expect(result.steps[0].added).toEqual(result.steps[0].result);
+      expect(result.steps[1].compose).toBe('or');
+      expect(result.steps[1].removed).toEqual([]);
+    });
+
+    it('should report browsers removed by NOT clauses', () => {
+      const result = explainBrowserslistQuery({
+        query: 'last 2 versions and not dead',
+      });
+
+      const notStep = result.steps[1];
+      expect(notStep.not).toBe(true);
+      expect(notStep.compose).toBe('and');
+      expect(notStep.added).toEqual([]);
+      expect(notStep.removed.every(b => notStep.matched.includes(b))).toBe(true);
+    });
+
+    it('should end with the same browsers as executeBrowserslistQuery', () => {
+      const query = '> 0.5%, last 2 versions, Firefox ESR, not dead';
+      const explanation = explainBrowserslistQuery({ query });
+      const result = executeBrowserslistQuery({ query });
+
+      expect(explanation.browsers).toEqual(result.browsers);
+      expect(explanation.count).toBe(result.count);
+      expect(explanation.steps[explanation.steps.length - 1].result).toEqual(result.browsers);
+    });
+
+    it('should throw error for invalid query', () => {
+      expect(() => {
+        explainBrowserslistQuery({
+          query: 'invalid query syntax that does not exist',
+        });
+      }).toThrow('Failed to explain browserslist query');
+    });
+  });
+
   describe('getBrowserslistDefaults', () => {
     it('should return default browsers as string', () => {
       const defaults = getBrowserslistDefaults();
@@ -105,5 +333,141 @@ describe('Browserslist Utilities', () => {
       expect(coverage).toBeDefined();
       expect(coverage.coverage).toBe(0);
     });
+
+    it('should calculate coverage for a region and echo it back', () => {
+      const browsers = ['chrome 90', 'firefox 88', 'safari 14'];
+      const coverage = getBrowserslistCoverage(browsers, { region: 'jp' });
+
+      expect(coverage.countryCode).toBe('JP');
+      expect(coverage.coverage).toBeGreaterThanOrEqual(0);
+      expect(coverage.coverage).toBeLessThanOrEqual(100);
+    });
+
+    it('should calculate coverage for a continent', () => {
+      const coverage = getBrowserslistCoverage(['chrome 120'], { region: 'alt-AS' });
+
+      expect(coverage.countryCode).toBe('alt-as');
+      expect(typeof coverage.coverage).toBe('number');
+    });
+
+    it('should calculate coverage for custom usage statistics', () => {
+      const coverage = getBrowserslistCoverage(['chrome 120', 'firefox 121'], {
+        stats: { chrome: { '120': 40, '119': 10 }, firefox: { '121': 5 } },
+      });
+
+      expect(coverage.coverage).toBe(45);
+      expect(coverage.customStats).toBe(true);
+      expect(coverage.countryCode).toBeUndefined();
+    });
+
+    it('should throw error for unknown region', () => {
+      expect(() => {
+        getBrowserslistCoverage(['chrome 120'], { region: 'XX' });
+      }).toThrow('Failed to get coverage');
+    });
+
+    it('should throw error when both region and stats are given', () => {
+      expect(() => {
+        getBrowserslistCoverage(['chrome 120'], { region: 'US', stats: { chrome: { '120': 1 } } });
+      }).toThrow('either a region or custom stats');
+    });
+  });
+
+  describe('diffBrowserslistQueries', () => {
+    it('should report added, removed and shared browsers', () => {
+      const result = diffBrowserslistQueries({
+        from: { query: 'chrome 100, firefox 100' },
+        to: { query: 'chrome 100, safari 16.0' },
+      });
+
+      expect(result.added).toEqual(['safari 16.0']);
+      expect(result.removed).toEqual(['firefox 100']);
+      expect(result.shared).toEqual(['chrome 100']);
+    });
+
+    it('should group differences by browser family', () => {
+      const result = diffBrowserslistQueries({
+        from: { query: 'chrome 100, chrome 101' },
+        to: { query: 'chrome 101, chrome 102' },
+      });
+
+      expect(result.families).toEqual([
+        { family: 'chrome', added: ['102'], removed: ['100'], shared: ['101'] },
+      ]);
+    });
+
+    it('should compute the coverage delta', () => {
+      const result = diffBrowserslistQueries({
+        from: { query: 'defaults' },
+        to: { query: 'last 1 version' },
+      });
+
+      expect(result.coverage.from).toBeGreaterThan(0);
+      expect(result.coverage.to).toBeGreaterThan(0);
+      expect(result.coverage.delta).toBeCloseTo(result.coverage.to - result.coverage.from, 1);
+    });
+
+    it('should throw error when either query is invalid', () => {
+      expect(() => {
+        diffBrowserslistQueries({
+          from: { query: 'defaults' },
+          to: { query: 'invalid query syntax that does not exist' },
+        });
+      }).toThrow();
+    });
+  });
+
+  describe('getCoverageMatrix', () => {
+    it('should compute coverage per query per region', () => {
+      const matrix = getCoverageMatrix({
+        queries: ['defaults', 'last 1 chrome version'],
+        regions: ['us', 'JP'],
+      });
+
+      expect(matrix.regions).toEqual(['US', 'JP']);
+      expect(matrix.rows).toHaveLength(2);
+      expect(matrix.rows[0].query).toBe('defaults');
+      expect(matrix.rows[0].count).toBeGreaterThan(0);
+      expect(Object.keys(matrix.rows[0].coverage)).toEqual(['US', 'JP']);
+      expect(matrix.rows[0].coverage.JP).toBeGreaterThan(matrix.rows[1].coverage.JP);
+    });
+
+    it('should expand continents', () => {
+      const matrix = getCoverageMatrix({
+        queries: ['defaults'],
+        regions: 'continents',
+      });
+
+      expect(matrix.regions).toEqual(CONTINENT_REGIONS);
+      expect(matrix.regions).not.toContain('alt-an');
+      expect(Object.keys(matrix.rows[0].coverage)).toEqual(CONTINENT_REGIONS);
+    });
+
+    it('should accept Antarctica as an explicit region', () => {
+      const matrix = getCoverageMatrix({ queries: ['defaults'], regions: ['alt-AN'] });
+
+      expect(matrix.regions).toEqual(['alt-an']);
+    });
+
+    it('should reject data snapshots', () => {
+      expect(() => getCoverageMatrix({
+        queries: ['defaults'],
+        regions: ['JP'],
+        options: { dataSnapshot: captureDataSnapshot() },
+      })).toThrow('Regional coverage is not available for data snapshots');
+    });
+
+    it('should format the matrix as a Markdown table', () => {
+      const table = formatCoverageMatrix({
+        regions: ['US', 'JP'],
+        rows: [{ query: 'defaults', count: 40, coverage: { US: 88.5, JP: 84.25 } }],
+      });
+
+      expect(table.split('\n')).toEqual([
+        '| Query | Browsers | US | JP |',
+        '| --- | ---: | ---: | ---: |',
+        '| `defaults` | 40 | 88.50% | 84.25% |',
+      ]);
+    });
   });
 });
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkFeatureSupport,
+  getCaniuseFeature,
+  getFeatureSupportLevel,
+  listCaniuseFeatures,
+  searchCaniuseFeatures,
+} from '../utils/caniuse.js';
+import { captureDataSnapshot } from '../utils/snapshot.js';
+
+describe('Can I Use Utilities', () => {
+  describe('getCaniuseFeature', () => {
+    it('should unpack a known feature', () => {
+      const feature = getCaniuseFeature('css-has');
+
+      expect(feature.title).toContain(':has()');
+      expect(feature.stats.chrome).toBeDefined();
+    });
+
+    it('should throw error for unknown feature', () => {
+      expect(() => getCaniuseFeature('not-a-real-feature')).toThrow('Unknown Can I Use feature');
+    });
+  });
+
+  describe('getFeatureSupportLevel', () => {
+    it('should classify support flags', () => {
+      const containerQueries = getCaniuseFeature('css-container-queries');
+      const filters = getCaniuseFeature('css-filters');
+
+      expect(getFeatureSupportLevel(containerQueries, 'chrome 106')).toBe('supported');
+      expect(getFeatureSupportLevel(containerQueries, 'chrome 104')).toBe('unsupported');
+      expect(getFeatureSupportLevel(filters, 'chrome 40')).toBe('prefixed');
+    });
+
+    it('should report unknown for browsers without data', () => {
+      const feature = getCaniuseFeature('es6-module');
+
+      expect(getFeatureSupportLevel(feature, 'node 18.0.0')).toBe('unknown');
+    });
+  });
+
+  describe('checkFeatureSupport', () => {
+    it('should check features against an explicit browser list', () => {
+      const result = checkFeatureSupport({
+        browsers: ['chrome 106', 'chrome 104', 'ie 11'],
+        features: ['css-container-queries'],
+      });
+
+      expect(result.count).toBe(3);
+      expect(result.query).toBeUndefined();
+      const [report] = result.features;
+      expect(report.id).toBe('css-container-queries');
+      expect(report.summary.supported).toBe(1);
+      expect(report.summary.unsupported).toBe(2);
+      expect(report.lacking).toEqual(['chrome 104', 'ie 11']);
+      expect(report.lackingShare).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should resolve targets from a query', () => {
+      const result = checkFeatureSupport({
+        query: 'last 2 chrome versions',
+        features: ['es6-module', 'css-has'],
+        region: 'jp',
+      });
+
+      expect(result.query).toBe('last 2 chrome versions');
+      expect(result.countryCode).toBe('JP');
+      expect(result.features).toHaveLength(2);
+      expect(result.features[0].lacking).toEqual([]);
+      expect(result.features[0].lackingShare).toBe(0);
+    });
+
+    it('should measure the share lacking support with the data snapshot', () => {
+      const dataSnapshot = captureDataSnapshot();
+      dataSnapshot.agents.ie.usage['11'] = 12.5;
+
+      const result = checkFeatureSupport({ browsers: ['ie 11'], features: ['es6-module'], options: { dataSnapshot } });
+      expect(result.features[0].lackingShare).toBe(12.5);
+    });
+
+    it('should require either a query or browsers', () => {
+      expect(() => checkFeatureSupport({ features: ['css-has'] })).toThrow('either query or browsers');
+    });
+
+    it('should throw error for unknown feature', () => {
+      expect(() => checkFeatureSupport({ browsers: ['chrome 120'], features: ['nope'] })).toThrow();
+    });
+  });
+
+  describe('listCaniuseFeatures', () => {
+    it('should list every feature with title and status', () => {
+      const features = listCaniuseFeatures();
+
+      expect(features.length).toBeGreaterThan(100);
+      expect(features.find(f => f.id === 'es6-module')).toMatchObject({
+        id: 'es6-module',
+        title: expect.any(String),
+        status: expect.any(String),
+      });
+    });
+  });
+
+  describe('searchCaniuseFeatures', () => {
+    it('should find a feature from a natural language question', () => {
+      const result = searchCaniuseFeatures('can we use :has()?');
+
+      expect(result.results[0].id).toBe('css-has');
+    });
+
+    it('should rank exact id matches first', () => {
+      const result = searchCaniuseFeatures('flexbox gap');
+
+      expect(result.results[0].id).toBe('flexbox-gap');
+      expect(result.results.map(r => r.id)).toContain('flexbox');
+    });
+
+    it('should respect the result limit', () => {
+      const result = searchCaniuseFeatures('css', 3);
+
+      expect(result.results).toHaveLength(3);
+    });
+
+    it('should return no results for unrelated text', () => {
+      const result = searchCaniuseFeatures('zzzzqqq');
+
+      expect(result.results).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { parseBrowserslistrc, parsePackageBrowserslist, resolveBrowserslistConfig } from '../utils/config.js';
+
+describe('Config Utilities', () => {
+  describe('parseBrowserslistrc', () => {
+    it('should parse defaults and environment sections', () => {
+      const sections = parseBrowserslistrc([
+        '# Browsers that we support',
+        '> 1%, not dead',
+        '',
+        '[production staging]',
+        '> 0.5%',
+        '',
+        '[development]',
+        'last 1 chrome version',
+      ].join('\n'));
+
+      expect(sections).toEqual({
+        defaults: ['> 1%', 'not dead'],
+        production: ['> 0.5%'],
+        staging: ['> 0.5%'],
+        development: ['last 1 chrome version'],
+      });
+    });
+
+    it('should reject duplicate sections', () => {
+      expect(() => parseBrowserslistrc('[production]\n> 1%\n[production]\ndefaults')).toThrow('Duplicate section');
+    });
+  });
+
+  describe('parsePackageBrowserslist', () => {
+    it('should read the browserslist field of a package.json', () => {
+      const sections = parsePackageBrowserslist(JSON.stringify({
+        name: 'app',
+        browserslist: { production: ['> 1%'], development: 'last 1 chrome version' },
+      }));
+
+      expect(sections).toEqual({
+        production: ['> 1%'],
+        development: ['last 1 chrome version'],
+      });
+    });
+
+    it('should accept the field value on its own', () => {
+      expect(parsePackageBrowserslist('["defaults", "not ie 11"]')).toEqual({
+        defaults: ['defaults', 'not ie 11'],
+      });
+    });
+
+    it('should reject a package.json without browserslist field', () => {
+      expect(() => parsePackageBrowserslist('{ "name": "app" }')).toThrow('no "browserslist" field');
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => parsePackageBrowserslist('{ browserslist')).toThrow('Invalid package.json');
+    });
+  });
+
+  describe('resolveBrowserslistConfig', () => {
+    it('should resolve every environment of a .browserslistrc', () => {
+      const result = resolveBrowserslistConfig({
+        content: '[production]\n> 1%\nnot dead\n\n[development]\nlast 1 chrome version',
+      });
+
+      expect(result.format).toBe('browserslistrc');
+      expect(result.envs.map(e => e.env)).toEqual(['production', 'development']);
+      expect(result.envs[0].query).toBe('> 1%, not dead');
+      expect(result.envs[1].browsers).toHaveLength(1);
+      expect(result.envs[1].count).toBe(1);
+    });
+
+    it('should detect package.json content', () => {
+      const result = resolveBrowserslistConfig({
+        content: JSON.stringify({ name: 'app', browserslist: ['last 1 firefox version'] }),
+      });
+
+      expect(result.format).toBe('package.json');
+      expect(result.envs).toHaveLength(1);
+      expect(result.envs[0].env).toBe('defaults');
+      expect(result.envs[0].browsers[0]).toMatch(/^firefox /);
+    });
+
+    it('should throw error for an empty config', () => {
+      expect(() => resolveBrowserslistConfig({ content: '# nothing here\n' })).toThrow('No browserslist queries');
+    });
+  });
+});
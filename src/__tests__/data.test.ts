@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MAX_DATA_AGE_DAYS, getDataInfo } from '../utils/data.js';
+
+describe('Data Utilities', () => {
+  describe('getDataInfo', () => {
+    it('should report bundled data versions', () => {
+      const result = getDataInfo();
+
+      expect(result.browserslist).toMatch(/^\d+\.\d+\.\d+$/);
+      expect(result.caniuseLite.version).toMatch(/^1\.0\.\d+$/);
+      expect(result.electronToChromium).toMatch(/^\d+\.\d+\.\d+$/);
+      expect(result.maxAgeDays).toBe(DEFAULT_MAX_DATA_AGE_DAYS);
+    });
+
+    it('should compute the data age from the newest release date', () => {
+      const { caniuseLite } = getDataInfo();
+      const now = new Date(`${caniuseLite.dataDate}T00:00:00Z`);
+      now.setUTCDate(now.getUTCDate() + 30);
+
+      const result = getDataInfo(DEFAULT_MAX_DATA_AGE_DAYS, now);
+
+      expect(result.caniuseLite.ageDays).toBe(30);
+      expect(result.stale).toBe(false);
+      expect(result.warning).toBeUndefined();
+    });
+
+    it('should warn when the data is older than the limit', () => {
+      const { caniuseLite } = getDataInfo();
+      const now = new Date(`${caniuseLite.dataDate}T00:00:00Z`);
+      now.setUTCDate(now.getUTCDate() + 30);
+
+      const result = getDataInfo(7, now);
+
+      expect(result.stale).toBe(true);
+      expect(result.warning).toContain('30 days old');
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BrowserslistQueryError,
+  diagnoseQueryError,
+  formatToolError,
+  toErrorEnvelope,
+} from '../utils/diagnostics.js';
+import { executeBrowserslistQuery, getBrowserslistCoverage } from '../utils/browserslist.js';
+
+/**
+ * Run a query and return the diagnostic of the error it throws
+ */
+function diagnose(query: string) {
+  try {
+    executeBrowserslistQuery({ query });
+  } catch (error) {
+    expect(error).toBeInstanceOf(BrowserslistQueryError);
+    return (error as BrowserslistQueryError).diagnostic;
+  }
+  throw new Error(`Query did not fail: ${query}`);
+}
+
+describe('Query Diagnostics', () => {
+  describe('diagnoseQueryError', () => {
+    it('should suggest browser names for an unknown browser', () => {
+      const diagnostic = diagnose('defaults, chrom > 90');
+
+      expect(diagnostic.code).toBe('unknown-browser');
+      expect(diagnostic.clause).toBe('chrom > 90');
+      expect(diagnostic.span).toEqual({ start: 10, end: 20 });
+      expect(diagnostic.suggestions[0]).toBe('defaults, chrome > 90');
+    });
+
+    it('should suggest the closest released versions for an unknown version', () => {
+      const diagnostic = diagnose('defaults, IE 12');
+
+      expect(diagnostic.code).toBe('unknown-version');
+      expect(diagnostic.clause).toBe('IE 12');
+      expect(diagnostic.suggestions).toEqual(['defaults, IE 11', 'defaults, IE 10', 'defaults, IE 9']);
+    });
+
+    it('should suggest region codes for an unknown region', () => {
+      const diagnostic = diagnose('> 5% in UK');
+
+      expect(diagnostic.code).toBe('unknown-region');
+      expect(diagnostic.span).toEqual({ start: 0, end: 10 });
+      expect(diagnostic.suggestions[0]).toBe('> 5% in GB');
+    });
+
+    it('should correct misspelled keywords of an unparsable clause', () => {
+      const diagnostic = diagnose('defualts, not dead');
+
+      expect(diagnostic.code).toBe('syntax-error');
+      expect(diagnostic.clause).toBe('defualts');
+      expect(diagnostic.span).toEqual({ start: 0, end: 8 });
+      expect(diagnostic.suggestions).toEqual(['defaults, not dead']);
+    });
+
+    it('should only suggest corrections that resolve', () => {
+      const diagnostic = diagnose('invalid query syntax 123456');
+
+      expect(diagnostic.code).toBe('syntax-error');
+      expect(diagnostic.suggestions).toEqual([]);
+    });
+
+    it('should suggest version clauses for a bare browser name', () => {
+      const diagnostic = diagnose('chrome');
+
+      expect(diagnostic.code).toBe('syntax-error');
+      expect(diagnostic.suggestions).toContain('last 2 chrome versions');
+    });
+
+    it('should report a missing config', () => {
+      const diagnostic = diagnoseQueryError('Missing config for Browserslist environment `staging`');
+
+      expect(diagnostic.code).toBe('missing-config');
+      expect(diagnostic.suggestions).toEqual([]);
+    });
+
+    it('should fall back to a generic code for other errors', () => {
+      const diagnostic = diagnoseQueryError('Something unexpected');
+
+      expect(diagnostic.code).toBe('query-error');
+      expect(diagnostic.clause).toBeUndefined();
+    });
+
+    it('should diagnose coverage errors', () => {
+      expect(() => getBrowserslistCoverage({ query: 'chrom > 90' })).toThrow(BrowserslistQueryError);
+    });
+  });
+
+  describe('error envelopes', () => {
+    it('should include the diagnostic of query errors', () => {
+      const error = new BrowserslistQueryError('Failed', diagnoseQueryError('Unknown browser chrom', 'chrom > 90'));
+      const envelope = toErrorEnvelope('Failed', error);
+
+      expect(envelope.error).toBe('Failed');
+      expect(envelope.diagnostic?.code).toBe('unknown-browser');
+      expect(formatToolError(error)).toContain('"code": "unknown-browser"');
+    });
+
+    it('should keep other errors to a message', () => {
+      expect(toErrorEnvelope('Failed', new Error('Failed'))).toEqual({ error: 'Failed' });
+      expect(formatToolError(new Error('Failed'))).toBe('Error: Failed');
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { planDifferentialBuild } from '../utils/differential.js';
+import { captureDataSnapshot } from '../utils/snapshot.js';
+
+describe('Differential Build Utilities', () => {
+  describe('planDifferentialBuild', () => {
+    it('should resolve both buckets with their audience share', () => {
+      const result = planDifferentialBuild({ modern: 'chrome >= 100', legacy: 'ie 11' });
+
+      expect(result.modern.browsers).toContain('chrome 100');
+      expect(result.modern.count).toBe(result.modern.browsers.length);
+      expect(result.modern.coverage).toBeGreaterThan(result.legacy.coverage);
+      expect(result.legacy.browsers).toEqual(['ie 11']);
+    });
+
+    it('should report overlap and versions between the buckets', () => {
+      const result = planDifferentialBuild({ modern: 'chrome >= 95', legacy: 'chrome 80 - 96' });
+
+      expect(result.overlap).toEqual(['chrome 96', 'chrome 95']);
+      expect(result.gaps).toEqual([]);
+
+      const gapped = planDifferentialBuild({ modern: 'chrome >= 100', legacy: 'chrome 80 - 96' });
+      expect(gapped.gaps).toEqual(['chrome 97', 'chrome 98', 'chrome 99']);
+    });
+
+    it('should find gaps among the released versions of the data snapshot', () => {
+      const dataSnapshot = captureDataSnapshot();
+      const chrome = dataSnapshot.agents.chrome;
+      chrome.versions = chrome.versions.filter((version) => version !== '98');
+      chrome.released = chrome.released.filter((version) => version !== '98');
+
+      const result = planDifferentialBuild({ modern: 'chrome >= 100', legacy: 'chrome 80 - 96', options: { dataSnapshot } });
+      expect(result.gaps).toEqual(['chrome 97', 'chrome 99']);
+    });
+
+    it('should check module support of modern browsers', () => {
+      const result = planDifferentialBuild({ modern: 'chrome >= 60, safari 10.1', legacy: 'ie 11' });
+
+      expect(result.moduleSupport.supported).toBe(false);
+      expect(result.moduleSupport.unsupported).toEqual(['chrome 60', 'safari 10.1']);
+    });
+
+    it('should flag legacy browsers that load the modern bundle', () => {
+      const result = planDifferentialBuild({ modern: 'chrome >= 100', legacy: 'chrome 60 - 61, ie 11' });
+
+      expect(result.moduleSupport.supported).toBe(true);
+      expect(result.moduleSupport.legacyWithModules).toEqual(['chrome 61']);
+    });
+
+    it('should report the audience share neither bucket targets', () => {
+      const result = planDifferentialBuild({ modern: 'chrome >= 100', legacy: 'ie 11' });
+
+      expect(result.fallthrough).toBeCloseTo(100 - result.modern.coverage - result.legacy.coverage, 1);
+    });
+
+    it('should measure audience share in a region', () => {
+      const result = planDifferentialBuild({ modern: 'defaults', legacy: 'ie 11', region: 'us' });
+
+      expect(result.countryCode).toBe('US');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  captureTargetSnapshot,
+  checkTargetDrift,
+  checkTargetDriftFile,
+  formatTargetDrift,
+  saveTargetSnapshot,
+} from '../utils/drift.js';
+import { TargetSnapshot } from '../types/index.js';
+
+const CONFIG = '[production]\n> 0.5%, last 2 versions, not dead\n\n[legacy]\nie 11\n';
+
+/**
+ * A snapshot taken when production targeted chrome 100 instead of its newest version
+ */
+function driftedSnapshot(): TargetSnapshot {
+  const snapshot = captureTargetSnapshot({ content: CONFIG });
+  const production = snapshot.envs.production;
+  production.browsers = [...production.browsers.filter((browser) => !browser.startsWith('chrome ')), 'chrome 100'];
+  return snapshot;
+}
+
+describe('Target Drift Utilities', () => {
+  describe('captureTargetSnapshot', () => {
+    it('should record browsers and coverage of every environment', () => {
+      const snapshot = captureTargetSnapshot({ content: CONFIG }, new Date('2025-03-14T00:00:00Z'));
+
+      expect(snapshot.lockfileVersion).toBe(1);
+      expect(snapshot.capturedAt).toBe('2025-03-14T00:00:00.000Z');
+      expect(Object.keys(snapshot.envs)).toEqual(['production', 'legacy']);
+      expect(snapshot.envs.legacy).toEqual({ query: 'ie 11', browsers: ['ie 11'], coverage: expect.any(Number) });
+      expect(snapshot.envs.production.coverage).toBeGreaterThan(50);
+    });
+  });
+
+  describe('checkTargetDrift', () => {
+    it('should report no drift for a snapshot of the current data', () => {
+      const drift = checkTargetDrift({ snapshot: captureTargetSnapshot({ content: CONFIG }) });
+
+      expect(drift.drifted).toBe(false);
+      expect(drift.envs.every((env) => env.added.length === 0 && env.removed.length === 0)).toBe(true);
+      expect(formatTargetDrift(drift)).toMatch(/^No browser targets drifted since/);
+    });
+
+    it('should report browsers added and removed since the snapshot', () => {
+      const drift = checkTargetDrift({ snapshot: driftedSnapshot() });
+      const production = drift.envs.find((env) => env.env === 'production')!;
+
+      expect(drift.drifted).toBe(true);
+      expect(production.removed).toEqual(['chrome 100']);
+      expect(production.added.length).toBeGreaterThan(0);
+      expect(production.added.every((browser) => browser.startsWith('chrome '))).toBe(true);
+      expect(drift.envs.find((env) => env.env === 'legacy')).toMatchObject({ added: [], removed: [] });
+    });
+
+    it('should format drift as a diff of the changed environments', () => {
+      const text = formatTargetDrift(checkTargetDrift({ snapshot: driftedSnapshot() }));
+
+      expect(text).toMatch(/^Browser targets drifted since/);
+      expect(text).toContain('[production] > 0.5%, last 2 versions, not dead');
+      expect(text).toContain('- chrome 100');
+      expect(text).not.toContain('[legacy]');
+    });
+  });
+
+  describe('target snapshot files', () => {
+    it('should save a snapshot and check it for drift', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'browserslist-targets-'));
+      try {
+        await writeFile(join(dir, '.browserslistrc'), CONFIG);
+        await saveTargetSnapshot(join(dir, '.browserslistrc'), join(dir, 'browserslist.lock.json'));
+
+        const saved = JSON.parse(await readFile(join(dir, 'browserslist.lock.json'), 'utf8'));
+        expect(saved.envs.legacy.browsers).toEqual(['ie 11']);
+        expect((await checkTargetDriftFile(join(dir, 'browserslist.lock.json'))).drifted).toBe(false);
+
+        await writeFile(join(dir, 'browserslist.lock.json'), JSON.stringify(driftedSnapshot()));
+        expect((await checkTargetDriftFile(join(dir, 'browserslist.lock.json'))).drifted).toBe(true);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject an invalid snapshot file', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'browserslist-targets-'));
+      try {
+        await writeFile(join(dir, 'browserslist.lock.json'), '{"envs": {}}');
+        await expect(checkTargetDriftFile(join(dir, 'browserslist.lock.json'))).rejects.toThrow(/Invalid target snapshot/);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
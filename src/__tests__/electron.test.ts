@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { mapElectronVersions } from '../utils/electron.js';
+import { checkFeatureSupport } from '../utils/caniuse.js';
+
+describe('Electron Utilities', () => {
+  describe('mapElectronVersions', () => {
+    it('should map an Electron major version to its Chrome version', () => {
+      const result = mapElectronVersions({ electron: '25' });
+
+      expect(result.query).toBe('electron 25.0');
+      expect(result.browsers).toEqual(['chrome 114']);
+      expect(result.mappings).toEqual([
+        { chrome: '114', electron: expect.arrayContaining(['25.0', '25.9']) },
+      ]);
+    });
+
+    it('should cover every minor version of a major version range', () => {
+      const result = mapElectronVersions({ electron: '30 - 31' });
+
+      expect(result.query).toMatch(/^electron 30\.0 - 31\.\d+$/);
+      expect(result.browsers).toEqual(['chrome 126', 'chrome 124']);
+    });
+
+    it('should map Chromium versions back to Electron', () => {
+      const result = mapElectronVersions({ chrome: '>= 138' });
+
+      const chrome138 = result.mappings.find((m) => m.chrome === '138');
+      const chrome139 = result.mappings.find((m) => m.chrome === '139');
+      expect(chrome138?.electron).toContain('37.0');
+      expect(chrome139?.electron).toEqual([]);
+    });
+
+    it('should expand an electron query with coverage', () => {
+      const result = mapElectronVersions({ query: 'electron >= 36', region: 'us' });
+
+      expect(result.count).toBe(result.mappings.length);
+      expect(result.countryCode).toBe('US');
+      expect(result.coverage).toBeGreaterThan(0);
+    });
+
+    it('should feed feature checks', () => {
+      const { browsers } = mapElectronVersions({ electron: '>= 30' });
+      const support = checkFeatureSupport({ browsers, features: ['css-nesting'] });
+
+      expect(support.features[0].summary.supported).toBe(browsers.length);
+    });
+
+    it('should require exactly one input', () => {
+      expect(() => mapElectronVersions({ electron: '25', chrome: '114' }))
+        .toThrow('Specify exactly one of electron, chrome or query');
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { getBrowserEngineMapping, summarizeEngines } from '../utils/engines.js';
+import { executeBrowserslistQuery } from '../utils/browserslist.js';
+
+describe('Engine Utilities', () => {
+  describe('getBrowserEngineMapping', () => {
+    it('should map Chromium-based browsers to their Chromium version', () => {
+      expect(getBrowserEngineMapping('samsung 27')).toEqual({
+        browser: 'samsung 27',
+        engine: 'Blink',
+        jsEngine: 'V8',
+        engineVersion: '125',
+      });
+      expect(getBrowserEngineMapping('opera 100').engineVersion).toBe('114');
+      expect(getBrowserEngineMapping('edge 120').engineVersion).toBe('120');
+      expect(getBrowserEngineMapping('android 4.4.3-4.4.4').engineVersion).toBe('33');
+    });
+
+    it('should map Gecko and WebKit browsers', () => {
+      expect(getBrowserEngineMapping('kaios 2.5')).toMatchObject({ engine: 'Gecko', jsEngine: 'SpiderMonkey', engineVersion: '48' });
+      expect(getBrowserEngineMapping('ios_saf 15.2-15.3')).toMatchObject({
+        engine: 'WebKit',
+        jsEngine: 'JavaScriptCore',
+        engineVersion: '15.2',
+      });
+    });
+
+    it('should map legacy engines', () => {
+      expect(getBrowserEngineMapping('ie 11')).toMatchObject({ engine: 'Trident', engineVersion: '7.0' });
+      expect(getBrowserEngineMapping('edge 18')).toMatchObject({ engine: 'EdgeHTML', jsEngine: 'Chakra', engineVersion: '18' });
+      expect(getBrowserEngineMapping('opera 12.1')).toMatchObject({ engine: 'Presto', engineVersion: null });
+    });
+
+    it('should map Node.js to its V8 version', () => {
+      expect(getBrowserEngineMapping('node 18.20.0')).toMatchObject({ engine: 'V8', jsEngine: 'V8', engineVersion: '10.2.154.26' });
+    });
+  });
+
+  describe('summarizeEngines', () => {
+    it('should report the oldest and newest engine version per engine', () => {
+      const [blink, webkit] = summarizeEngines(['chrome 120', 'samsung 23', 'opera 100', 'safari 17.0', 'ios_saf 16.0']);
+
+      expect(blink).toMatchObject({ engine: 'Blink', minVersion: '114', maxVersion: '120', count: 3 });
+      expect(webkit).toMatchObject({ engine: 'WebKit', minVersion: '16.0', maxVersion: '17.0', count: 2 });
+    });
+
+    it('should compare engine versions numerically and ignore unknown versions', () => {
+      const [blink] = summarizeEngines(['chrome 100', 'chrome 99', 'baidu 13.52']);
+
+      expect(blink.minVersion).toBe('99');
+      expect(blink.browsers).toContainEqual({ browser: 'baidu 13.52', engineVersion: null });
+    });
+
+    it('should be returned with query results in the engines format', () => {
+      const result = executeBrowserslistQuery({ query: 'defaults', format: 'engines' });
+
+      expect(result.browsers.length).toBe(result.count);
+      expect(result.engines!.reduce((total, engine) => total + engine.count, 0)).toBe(result.count);
+      expect(result.engines![0].engine).toBe('Blink');
+    });
+  });
+});
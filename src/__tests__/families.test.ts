@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getBrowserDisplayName,
+  getBrowserEngine,
+  getBrowserInfo,
+  groupBrowsersByFamily,
+  listBrowserFamilies,
+  resolveBrowserFamily,
+} from '../utils/families.js';
+import { BROWSERSLIST_DOCUMENTATION } from '../resources/documentation.js';
+import { executeBrowserslistQuery } from '../utils/browserslist.js';
+import { captureDataSnapshot } from '../utils/snapshot.js';
+
+describe('Browser Family Utilities', () => {
+  describe('groupBrowsersByFamily', () => {
+    it('should collapse consecutive versions into ranges, newest first', () => {
+      const [chrome] = groupBrowsersByFamily(['chrome 105', 'chrome 104', 'chrome 103', 'chrome 90']);
+
+      expect(chrome.family).toBe('chrome');
+      expect(chrome.name).toBe('Chrome');
+      expect(chrome.ranges).toEqual(['chrome 103-105', 'chrome 90']);
+      expect(chrome.count).toBe(4);
+    });
+
+    it('should join the outer bounds of versions that are ranges themselves', () => {
+      const [iosSafari] = groupBrowsersByFamily(['ios_saf 16.0', 'ios_saf 15.6-15.8', 'ios_saf 15.5', 'ios_saf 15.4', 'ios_saf 15.2-15.3']);
+
+      expect(iosSafari.name).toBe('Safari on iOS');
+      expect(iosSafari.ranges).toEqual(['ios_saf 15.2-16.0']);
+    });
+
+    it('should annotate each version with engine, release date, usage and dead flag', () => {
+      const [ie] = groupBrowsersByFamily(['ie 11']);
+
+      expect(ie.engine).toBe('Trident');
+      expect(ie.versions).toEqual([
+        { version: '11', engine: 'Trident', releaseDate: '2013-10-17', usage: expect.any(Number), dead: true },
+      ]);
+      expect(ie.usage).toBe(ie.versions[0].usage);
+    });
+
+    it('should report unreleased versions without a release date', () => {
+      const [browser] = executeBrowserslistQuery({ query: 'unreleased chrome versions', format: 'grouped' }).families!;
+
+      expect(browser.versions.every((version) => version.releaseDate === null)).toBe(true);
+    });
+
+    it('should describe Node.js versions', () => {
+      const [node] = groupBrowsersByFamily(['node 18.20.0']);
+
+      expect(node).toMatchObject({ name: 'Node.js', engine: 'V8', ranges: ['node 18.20.0'], usage: 0 });
+      expect(node.versions[0].releaseDate).toBe('2024-03-26');
+    });
+  });
+
+  describe('getBrowserEngine', () => {
+    it('should return the engine a version shipped with', () => {
+      expect(getBrowserEngine('edge', '18')).toBe('EdgeHTML');
+      expect(getBrowserEngine('edge', '79')).toBe('Blink');
+      expect(getBrowserEngine('opera', '12.1')).toBe('Presto');
+      expect(getBrowserEngine('firefox', '120')).toBe('Gecko');
+      expect(getBrowserEngine('unknown', '1')).toBe('unknown');
+    });
+  });
+
+  describe('getBrowserDisplayName', () => {
+    it('should return caniuse display names', () => {
+      expect(getBrowserDisplayName('and_chr')).toBe('Chrome for Android');
+      expect(getBrowserDisplayName('unknown')).toBe('unknown');
+    });
+  });
+
+  describe('resolveBrowserFamily', () => {
+    it('should resolve families, browserslist aliases and display names', () => {
+      expect(resolveBrowserFamily('ios_saf')).toBe('ios_saf');
+      expect(resolveBrowserFamily('ios')).toBe('ios_saf');
+      expect(resolveBrowserFamily('iOS Safari')).toBe('ios_saf');
+      expect(resolveBrowserFamily('Chrome for Android')).toBe('and_chr');
+      expect(resolveBrowserFamily('FF')).toBe('firefox');
+      expect(resolveBrowserFamily('Node.js')).toBe('node');
+    });
+
+    it('should throw for unknown browsers', () => {
+      expect(() => resolveBrowserFamily('netscape')).toThrow('Unknown browser `netscape`');
+    });
+  });
+
+  describe('getBrowserInfo', () => {
+    it('should describe every known version, newest first', () => {
+      const info = getBrowserInfo('ie');
+
+      expect(info).toMatchObject({ family: 'ie', name: 'IE', engine: 'Trident', oldest: '5.5', newest: '11' });
+      expect(info.aliases).toEqual(expect.arrayContaining(['ie', 'explorer', 'Internet Explorer']));
+      expect(info.versions[0]).toMatchObject({ version: '11', releaseDate: '2013-10-17', dead: true });
+      expect(info.versions).toHaveLength(info.count);
+    });
+
+    it('should use the newest released version rather than unreleased ones', () => {
+      const info = getBrowserInfo('chrome');
+
+      expect(info.versions[0].releaseDate).toBeNull();
+      expect(info.versions.find((version) => version.version === info.newest)?.releaseDate).not.toBeNull();
+    });
+  });
+
+  describe('listBrowserFamilies', () => {
+    it('should list every browserslist family and Node.js', () => {
+      const families = listBrowserFamilies().map((browser) => browser.family);
+
+      expect(families).toEqual(expect.arrayContaining(['chrome', 'firefox', 'safari', 'ios_saf', 'and_chr', 'node']));
+    });
+
+    it('should generate the documented browser names from the data', () => {
+      for (const { family } of listBrowserFamilies()) {
+        expect(BROWSERSLIST_DOCUMENTATION).toContain(`\`${family}\``);
+      }
+    });
+  });
+
+  describe('grouped query results', () => {
+    it('should keep the flat fields alongside the families', () => {
+      const result = executeBrowserslistQuery({ query: 'last 2 chrome versions, last 2 firefox versions', format: 'grouped' });
+
+      expect(result.browsers).toHaveLength(4);
+      expect(result.count).toBe(4);
+      expect(result.families!.map((family) => family.family)).toEqual(['chrome', 'firefox']);
+      expect(result.families!.reduce((total, family) => total + family.count, 0)).toBe(result.count);
+    });
+
+    it('should flag dead versions of the data snapshot the query resolved with', () => {
+      executeBrowserslistQuery({ query: 'baidu >= 0', format: 'grouped' });
+      const dataSnapshot = captureDataSnapshot();
+      const baidu = dataSnapshot.agents.baidu;
+      baidu.versions = [...baidu.versions, '99'];
+      baidu.released = [...baidu.released, '99'];
+
+      const result = executeBrowserslistQuery({ query: 'baidu 99', format: 'grouped', options: { dataSnapshot } });
+      expect(result.families![0].versions[0]).toMatchObject({ version: '99', dead: true });
+    });
+
+    it('should only group when asked to', () => {
+      expect(executeBrowserslistQuery({ query: 'defaults' }).families).toBeUndefined();
+      expect(executeBrowserslistQuery({ query: 'defaults', format: 'flat' }).families).toBeUndefined();
+    });
+  });
+});
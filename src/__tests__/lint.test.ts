@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { lintBrowserslistConfig } from '../utils/lint.js';
+import { captureDataSnapshot } from '../utils/snapshot.js';
+
+describe('Lint Utilities', () => {
+  describe('lintBrowserslistConfig', () => {
+    it('should report dead, IE and Opera Mini targets for last N versions', () => {
+      const result = lintBrowserslistConfig({ query: 'last 2 versions' });
+      const ruleIds = result.findings.map(f => f.ruleId);
+
+      expect(ruleIds).toContain('missing-not-dead');
+      expect(ruleIds).toContain('targets-ie');
+      expect(ruleIds).toContain('targets-opera-mini');
+      expect(ruleIds).toContain('last-versions-obsolete');
+
+      const obsolete = result.findings.find(f => f.ruleId === 'last-versions-obsolete')!;
+      expect(obsolete.clause).toBe('last 2 versions');
+      expect(obsolete.suggestion).toBe('last 2 versions and not dead');
+      expect(result.summary.warnings).toBe(result.findings.length);
+    });
+
+    it('should suggest queries that resolve the finding', () => {
+      const result = lintBrowserslistConfig({ query: 'last 2 versions' });
+      const notDead = result.findings.find(f => f.ruleId === 'missing-not-dead')!;
+      const fixed = lintBrowserslistConfig({ query: notDead.suggestion! });
+
+      expect(fixed.findings.map(f => f.ruleId)).not.toContain('missing-not-dead');
+    });
+
+    it('should report redundant clauses', () => {
+      const result = lintBrowserslistConfig({ query: 'chrome 100, chrome >= 100' });
+      const redundant = result.findings.filter(f => f.ruleId === 'redundant-clause');
+
+      expect(redundant).toHaveLength(1);
+      expect(redundant[0].severity).toBe('info');
+      expect(redundant[0].clause).toBe('chrome 100');
+      expect(redundant[0].suggestion).toBe('chrome >= 100');
+    });
+
+    it('should report regional-only queries with low global coverage', () => {
+      const result = lintBrowserslistConfig({ query: '> 5% in US', threshold: 99 });
+
+      const finding = result.findings.find(f => f.ruleId === 'regional-only-coverage');
+      expect(finding).toBeDefined();
+      expect(finding!.suggestion).toBe('> 5% in US, cover 99%');
+    });
+
+    it('should report coverage gaps in given regions', () => {
+      const result = lintBrowserslistConfig({ query: 'last 1 chrome version', regions: ['jp'] });
+
+      const gap = result.findings.find(f => f.ruleId === 'country-coverage-gap')!;
+      expect(gap.message).toContain('JP');
+      expect(gap.suggestion).toBe('last 1 chrome version, cover 80% in JP');
+    });
+
+    it('should lint against the data snapshot of the query', () => {
+      const dataSnapshot = captureDataSnapshot();
+      const chrome = dataSnapshot.agents.chrome;
+      chrome.versions = chrome.versions.filter((version) => Number(version) <= 120);
+      chrome.released = chrome.released.filter((version) => Number(version) <= 120);
+
+      const query = 'last 2 chrome versions, chrome >= 119';
+      const redundant = (options = {}) => lintBrowserslistConfig({ query, options }).findings
+        .filter(f => f.ruleId === 'redundant-clause')
+        .map(f => f.clause);
+
+      expect(redundant()).toEqual(['last 2 chrome versions']);
+      expect(redundant({ dataSnapshot })).toEqual(['last 2 chrome versions', 'chrome >= 119']);
+    });
+
+    it('should reject region coverage checks for data snapshots', () => {
+      const dataSnapshot = captureDataSnapshot();
+
+      expect(() => lintBrowserslistConfig({ query: 'last 1 chrome version', regions: ['JP'], options: { dataSnapshot } }))
+        .toThrow('Regional coverage is not available for data snapshots');
+    });
+
+    it('should report nothing for a clean query', () => {
+      const result = lintBrowserslistConfig({ query: 'last 2 chrome versions, not dead' });
+
+      expect(result.findings.filter(f => f.ruleId !== 'redundant-clause')).toEqual([]);
+    });
+
+    it('should lint every environment of a config', () => {
+      const result = lintBrowserslistConfig({
+        content: '[production]\nlast 2 versions\n\n[development]\nlast 1 chrome version',
+      });
+
+      expect(result.findings.every(f => f.env === 'production')).toBe(true);
+      expect(result.findings.length).toBeGreaterThan(0);
+    });
+
+    it('should require either a query or content', () => {
+      expect(() => lintBrowserslistConfig({})).toThrow('either query or content');
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { getNodeVersionInfo, queryNodeVersions } from '../utils/node.js';
+
+describe('Node Utilities', () => {
+  describe('getNodeVersionInfo', () => {
+    it('should describe an LTS release line', () => {
+      const info = getNodeVersionInfo('18.0.0', new Date('2024-01-01'));
+
+      expect(info).toMatchObject({
+        version: '18.0.0',
+        releaseLine: 'v18',
+        releaseDate: '2022-04-18',
+        lts: true,
+        codename: 'Hydrogen',
+        status: 'maintenance',
+        endOfLife: '2025-04-30',
+        supported: true,
+      });
+    });
+
+    it('should follow the release schedule phases', () => {
+      expect(getNodeVersionInfo('18.0.0', new Date('2022-06-01')).status).toBe('current');
+      expect(getNodeVersionInfo('18.0.0', new Date('2023-01-01')).status).toBe('active-lts');
+      expect(getNodeVersionInfo('18.0.0', new Date('2025-05-01'))).toMatchObject({
+        status: 'end-of-life',
+        supported: false,
+      });
+    });
+
+    it('should name 0.x release lines by minor version', () => {
+      const info = getNodeVersionInfo('0.12.0', new Date('2024-01-01'));
+
+      expect(info.releaseLine).toBe('v0.12');
+      expect(info.lts).toBe(false);
+      expect(info.status).toBe('end-of-life');
+    });
+  });
+
+  describe('queryNodeVersions', () => {
+    it('should describe each Node.js version of the query', () => {
+      const result = queryNodeVersions({ query: 'node >= 18, last 1 chrome version' });
+
+      expect(result.count).toBe(result.browsers.length);
+      expect(result.versions.length).toBe(result.browsers.filter((b) => b.startsWith('node ')).length);
+      expect(result.versions.every((v) => Number(v.version.split('.')[0]) >= 18)).toBe(true);
+    });
+
+    it('should only report maintained versions as supported', () => {
+      const result = queryNodeVersions({ query: 'maintained node versions' });
+
+      expect(result.versions.length).toBeGreaterThan(0);
+      expect(result.versions.every((v) => v.supported)).toBe(true);
+    });
+  });
+});
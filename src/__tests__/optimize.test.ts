@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { optimizeBrowserslistQuery } from '../utils/optimize.js';
+import { executeBrowserslistQuery } from '../utils/browserslist.js';
+import { captureDataSnapshot } from '../utils/snapshot.js';
+
+describe('Optimize Utilities', () => {
+  describe('optimizeBrowserslistQuery', () => {
+    it('should find a shorter query resolving to the same browsers', () => {
+      const query = '> 0.5%, last 2 versions, Firefox ESR, not dead';
+      const result = optimizeBrowserslistQuery({ query });
+
+      expect(result.original.clauses).toBe(4);
+      expect(result.optimized.exact).toBe(true);
+      expect(result.optimized.clauses).toBeLessThan(result.original.clauses);
+      expect(executeBrowserslistQuery({ query: result.optimized.query }).browsers)
+        .toEqual(executeBrowserslistQuery({ query }).browsers);
+    });
+
+    it('should search for candidates within the data snapshot of the query', () => {
+      const dataSnapshot = captureDataSnapshot();
+      const chrome = dataSnapshot.agents.chrome;
+      const removed = chrome.released.slice(-3);
+      chrome.versions = chrome.versions.filter((version) => !removed.includes(version));
+      chrome.released = chrome.released.slice(0, -3);
+
+      const query = 'last 2 chrome versions, last 1 chrome version';
+      const result = optimizeBrowserslistQuery({ query, options: { dataSnapshot } });
+
+      expect(result.redundantClauses).toEqual(['last 1 chrome version']);
+      expect(result.optimized).toMatchObject({ clauses: 1, exact: true, missing: [], extra: [] });
+      expect(executeBrowserslistQuery({ query: result.optimized.query, options: { dataSnapshot } }).browsers)
+        .toEqual(executeBrowserslistQuery({ query, options: { dataSnapshot } }).browsers);
+    });
+
+    it('should report redundant clauses', () => {
+      const result = optimizeBrowserslistQuery({ query: 'last 2 versions, last 1 version, not dead' });
+
+      expect(result.redundantClauses).toEqual(['last 1 version']);
+      expect(result.optimized.exact).toBe(true);
+    });
+
+    it('should collapse explicit versions into ranges', () => {
+      const result = optimizeBrowserslistQuery({
+        query: 'chrome 100, chrome 101, chrome 102, chrome 103, firefox 115',
+      });
+
+      expect(result.optimized.query).toBe('chrome 100 - 103, firefox 115');
+      expect(result.optimized.count).toBe(5);
+    });
+
+    it('should accept a shorter approximate query within the tolerance', () => {
+      const query = '> 0.4%, last 2 versions, not dead';
+      const exact = optimizeBrowserslistQuery({ query });
+      const approximate = optimizeBrowserslistQuery({ query, tolerance: 5 });
+
+      expect(exact.optimized.exact).toBe(true);
+      expect(approximate.tolerance).toBe(5);
+      expect(approximate.optimized.clauses).toBeLessThan(exact.optimized.clauses);
+      expect(approximate.optimized.difference).toBeLessThanOrEqual(5);
+      expect(approximate.optimized.missing.length + approximate.optimized.extra.length).toBeGreaterThan(0);
+    });
+
+    it('should throw for invalid queries', () => {
+      expect(() => optimizeBrowserslistQuery({ query: 'not a browser' }))
+        .toThrow('Failed to execute browserslist query');
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { readdirSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname } from 'node:path';
+import browserslist from 'browserslist';
+import { COUNTRY_CODES, getRegionInfo, listRegions, REGION_CODES, resolveRegionCode } from '../utils/regions.js';
+
+describe('Region Utilities', () => {
+  describe('REGION_CODES', () => {
+    it('should match the regions caniuse-lite ships', () => {
+      const require = createRequire(import.meta.url);
+      const files = readdirSync(dirname(require.resolve('caniuse-lite/data/regions/JP.js')));
+
+      expect([...REGION_CODES].sort()).toEqual(files.map((file) => file.replace(/\.js$/, '')).sort());
+      expect(COUNTRY_CODES).toContain('JP');
+      expect(COUNTRY_CODES).not.toContain('alt-ww');
+    });
+  });
+
+  describe('resolveRegionCode', () => {
+    it('should resolve codes case-insensitively and English names', () => {
+      expect(resolveRegionCode('gb')).toBe('GB');
+      expect(resolveRegionCode('United Kingdom')).toBe('GB');
+      expect(resolveRegionCode('ALT-EU')).toBe('alt-eu');
+      expect(resolveRegionCode('europe')).toBe('alt-eu');
+    });
+
+    it('should throw for unknown regions', () => {
+      expect(() => resolveRegionCode('UK')).toThrow('Unknown region `UK`');
+    });
+  });
+
+  describe('getRegionInfo', () => {
+    it('should describe a country with its most used browser versions', () => {
+      const info = getRegionInfo('JP', 5);
+
+      expect(info).toMatchObject({ code: 'JP', name: 'Japan', type: 'country' });
+      expect(info.topBrowsers).toHaveLength(5);
+      const usage = info.topBrowsers.map((browser) => browser.usage);
+      expect(usage).toEqual([...usage].sort((a, b) => b - a));
+    });
+
+    it('should list top browsers that resolve in region queries', () => {
+      const [top] = getRegionInfo('alt-as').topBrowsers;
+
+      expect(browserslist(`> ${Math.floor(top.usage)}% in alt-as`)).toContain(top.browser);
+      expect(top.name).toMatch(/^[A-Z]/);
+    });
+
+    it('should describe continents and the world', () => {
+      expect(getRegionInfo('alt-sa').type).toBe('continent');
+      expect(getRegionInfo('alt-ww')).toMatchObject({ name: 'Worldwide', type: 'world' });
+    });
+  });
+
+  describe('listRegions', () => {
+    it('should list every region with three top browsers by default', () => {
+      const regions = listRegions();
+
+      expect(regions.map((region) => region.code)).toEqual(REGION_CODES);
+      expect(regions.find((region) => region.code === 'US')?.topBrowsers).toHaveLength(3);
+    });
+
+    it('should filter by code or name', () => {
+      expect(listRegions('korea', 0)).toEqual([
+        { code: 'KP', name: 'North Korea', type: 'country', topBrowsers: [] },
+        { code: 'KR', name: 'South Korea', type: 'country', topBrowsers: [] },
+      ]);
+      expect(listRegions('alt-').map((region) => region.code)).toHaveLength(8);
+    });
+  });
+});
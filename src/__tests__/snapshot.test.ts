@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  captureDataSnapshot,
+  listDataSnapshots,
+  loadDataSnapshots,
+  registerDataSnapshot,
+  saveDataSnapshot,
+} from '../utils/snapshot.js';
+import { executeBrowserslistQuery, getBrowserslistCoverage } from '../utils/browserslist.js';
+import { DataSnapshot } from '../types/index.js';
+
+/**
+ * A snapshot from before the three newest Chrome releases
+ */
+function olderSnapshot(): DataSnapshot {
+  const snapshot = captureDataSnapshot();
+  const chrome = snapshot.agents.chrome;
+  const removed = chrome.released.slice(-3);
+  chrome.versions = chrome.versions.filter((version) => !removed.includes(version));
+  chrome.released = chrome.released.slice(0, -3);
+  return snapshot;
+}
+
+describe('Snapshot Utilities', () => {
+  describe('captureDataSnapshot', () => {
+    it('should capture versions and usage of the bundled data', () => {
+      const snapshot = captureDataSnapshot(new Date('2025-03-14T00:00:00Z'));
+
+      expect(snapshot.capturedAt).toBe('2025-03-14T00:00:00.000Z');
+      expect(snapshot.agents.chrome.released.length).toBeGreaterThan(100);
+      expect(snapshot.agents.ie.usage['11']).toBeTypeOf('number');
+      expect(snapshot.nodeVersions.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('withDataSnapshot', () => {
+    it('should evaluate queries against the snapshot', () => {
+      const snapshot = olderSnapshot();
+      const live = executeBrowserslistQuery({ query: 'last 1 chrome versions' });
+      const past = executeBrowserslistQuery({ query: 'last 1 chrome versions', options: { dataSnapshot: snapshot } });
+
+      expect(past.browsers).not.toEqual(live.browsers);
+      expect(past.browsers).toEqual([`chrome ${snapshot.agents.chrome.released.at(-1)}`]);
+      expect(past.dataSnapshot).toEqual({ capturedAt: snapshot.capturedAt, dataDate: snapshot.dataDate });
+    });
+
+    it('should restore the bundled data afterwards', () => {
+      const before = executeBrowserslistQuery({ query: 'last 1 chrome versions' });
+      executeBrowserslistQuery({ query: 'last 1 chrome versions', options: { dataSnapshot: olderSnapshot() } });
+      const after = executeBrowserslistQuery({ query: 'last 1 chrome versions' });
+
+      expect(after.browsers).toEqual(before.browsers);
+      expect(after.dataSnapshot).toBeUndefined();
+    });
+
+    it('should compute global coverage with snapshot usage', () => {
+      const snapshot = captureDataSnapshot();
+      snapshot.agents.chrome.usage = Object.fromEntries(
+        Object.keys(snapshot.agents.chrome.usage).map((version) => [version, 0])
+      );
+      registerDataSnapshot('no-chrome', snapshot);
+
+      const result = getBrowserslistCoverage(['chrome 120'], { dataSnapshot: 'no-chrome' });
+
+      expect(result.coverage).toBe(0);
+      expect(result.dataSnapshot?.name).toBe('no-chrome');
+    });
+
+    it('should reject unknown snapshots and regional coverage', () => {
+      expect(() => executeBrowserslistQuery({ query: 'defaults', options: { dataSnapshot: 'missing' } }))
+        .toThrow('Unknown data snapshot `missing`');
+      expect(() => getBrowserslistCoverage(['chrome 120'], { region: 'US', dataSnapshot: captureDataSnapshot() }))
+        .toThrow('Regional coverage is not available for data snapshots');
+    });
+  });
+
+  describe('saveDataSnapshot and loadDataSnapshots', () => {
+    it('should round-trip snapshots through a directory', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'browserslist-snapshots-'));
+      try {
+        const saved = await saveDataSnapshot(join(dir, '2025-03-14.json'));
+        expect(JSON.parse(await readFile(join(dir, '2025-03-14.json'), 'utf8'))).toEqual(saved);
+
+        const names = await loadDataSnapshots(dir);
+        expect(names).toEqual(['2025-03-14']);
+        expect(listDataSnapshots()).toContain('2025-03-14');
+
+        const result = executeBrowserslistQuery({ query: 'defaults', options: { dataSnapshot: '2025-03-14' } });
+        expect(result.browsers).toEqual(executeBrowserslistQuery({ query: 'defaults' }).browsers);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { suggestBrowserslistQueries } from '../utils/suggest.js';
+import { executeBrowserslistQuery } from '../utils/browserslist.js';
+
+describe('Suggest Utilities', () => {
+  describe('suggestBrowserslistQueries', () => {
+    it('should rank candidates meeting the target by versions targeted', () => {
+      const result = suggestBrowserslistQueries({ coverage: 80 });
+      const meeting = result.candidates.filter(c => c.meetsTarget);
+
+      expect(result.targetCoverage).toBe(80);
+      expect(meeting.length).toBeGreaterThan(0);
+      expect(result.candidates.slice(0, meeting.length)).toEqual(meeting);
+      for (let i = 1; i < meeting.length; i++) {
+        expect(meeting[i].count).toBeGreaterThanOrEqual(meeting[i - 1].count);
+      }
+      expect(meeting.every(c => c.coverage >= 80)).toBe(true);
+    });
+
+    it('should compute coverage for a region', () => {
+      const result = suggestBrowserslistQueries({ coverage: 85, region: 'jp', limit: 3 });
+
+      expect(result.countryCode).toBe('JP');
+      expect(result.candidates).toHaveLength(3);
+      expect(result.candidates[0].query).toContain('in JP');
+      for (const candidate of result.candidates) {
+        expect(executeBrowserslistQuery({ query: candidate.query }).count).toBe(candidate.count);
+      }
+    });
+
+    it('should reject unknown regions with a diagnostic', () => {
+      expect(() => suggestBrowserslistQueries({ coverage: 85, region: 'UK' })).toThrow('Unknown region name `UK`');
+    });
+
+    it('should apply inclusion, exclusion and dead browser goals', () => {
+      const result = suggestBrowserslistQueries({
+        coverage: 80,
+        mustInclude: ['ie 11'],
+        mustExclude: ['op_mini all'],
+      });
+
+      for (const candidate of result.candidates) {
+        const { browsers } = executeBrowserslistQuery({ query: candidate.query });
+        expect(browsers).toContain('ie 11');
+        expect(browsers).not.toContain('op_mini all');
+        expect(candidate.query).toContain('not dead');
+      }
+    });
+
+    it('should allow dead browsers when asked', () => {
+      const result = suggestBrowserslistQueries({ coverage: 80, excludeDead: false });
+
+      expect(result.candidates.every(c => !c.query.includes('not dead'))).toBe(true);
+    });
+
+    it('should reject conflicting goals', () => {
+      expect(() => suggestBrowserslistQueries({
+        coverage: 80,
+        mustInclude: ['ie 11'],
+        mustExclude: ['ie 11'],
+      })).toThrow('both included and excluded');
+    });
+  });
+});
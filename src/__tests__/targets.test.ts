@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { exportBuildTargets, toLightningCssVersion } from '../utils/targets.js';
+
+describe('Build Target Utilities', () => {
+  describe('toLightningCssVersion', () => {
+    it('should encode major, minor and patch', () => {
+      expect(toLightningCssVersion('16.6')).toBe((16 << 16) | (6 << 8));
+      expect(toLightningCssVersion('109')).toBe(109 << 16);
+      expect(toLightningCssVersion('1.2.3')).toBe((1 << 16) | (2 << 8) | 3);
+    });
+  });
+
+  describe('exportBuildTargets', () => {
+    it('should use the minimum version per browser', () => {
+      const result = exportBuildTargets({ query: 'chrome 100, chrome 110, ios_saf 16.6' });
+
+      expect(result.esbuild).toEqual(['chrome100', 'ios16.6']);
+      expect(result.babel).toEqual({ chrome: '100', ios: '16.6' });
+      expect(result.swc).toEqual({ chrome: '100', ios: '16.6' });
+      expect(result.lightningcss).toEqual({ chrome: 100 << 16, ios_saf: (16 << 16) | (6 << 8) });
+      expect(result.vite).toEqual(['chrome100', 'ios16.6']);
+    });
+
+    it('should map mobile browsers to their desktop engines where the tool expects it', () => {
+      const result = exportBuildTargets({ query: 'last 1 and_chr version' });
+
+      expect(result.esbuild[0]).toMatch(/^chrome\d+$/);
+      expect(Object.keys(result.babel)).toEqual(['chrome']);
+      expect(Object.keys(result.swc)).toEqual(['and_chr']);
+    });
+
+    it('should report browsers a format cannot express', () => {
+      const result = exportBuildTargets({ query: 'op_mini all, samsung 20, ie 11, node 18' });
+
+      expect(result.unmapped.esbuild).toEqual(['op_mini all', 'samsung 20']);
+      expect(result.unmapped.babel).toEqual(['op_mini all']);
+      expect(result.unmapped.lightningcss).toContain('node 18.20.0');
+      expect(result.unmapped.vite).toEqual(['ie 11', 'node 18.20.0', 'op_mini all', 'samsung 20']);
+      expect(result.esbuild).toContain('ie11');
+      expect(result.vite).toEqual([]);
+    });
+
+    it('should not map legacy Android browsers to Chrome', () => {
+      const result = exportBuildTargets({ query: 'android 4.4' });
+
+      expect(result.esbuild).toEqual([]);
+      expect(result.unmapped.esbuild).toEqual(['android 4.4']);
+      expect(result.babel).toEqual({ android: '4.4' });
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { BrowserslistQuerySchema } from '../types/index.js';
+import { BrowserslistDiffSchema, BrowserslistQuerySchema, CoverageMatrixSchema } from '../types/index.js';
 
 describe('Type Validation', () => {
   describe('BrowserslistQuerySchema', () => {
@@ -37,6 +37,30 @@ describe('Type Validation', () => {
       expect(result).toEqual(validInput);
     });
 
+    it('should validate advanced browserslist options', () => {
+      const validInput = {
+        query: 'android 120',
+        options: {
+          config: '/some/path/.browserslistrc',
+          mobileToDesktop: true,
+          ignoreUnknownVersions: false,
+          throwOnMissing: true,
+        },
+      };
+
+      const result = BrowserslistQuerySchema.parse(validInput);
+      expect(result).toEqual(validInput);
+    });
+
+    it('should drop server-controlled options from client input', () => {
+      const result = BrowserslistQuerySchema.parse({
+        query: 'extends my-config',
+        options: { dangerousExtend: true },
+      });
+
+      expect(result.options).toEqual({});
+    });
+
     it('should reject input without query', () => {
       const invalidInput = {
         options: {
@@ -59,4 +83,42 @@ describe('Type Validation', () => {
       }).toThrow();
     });
   });
+
+  describe('BrowserslistDiffSchema', () => {
+    it('should validate two queries with their own options', () => {
+      const validInput = {
+        from: { query: 'defaults' },
+        to: { query: 'last 2 versions', options: { env: 'production' } },
+      };
+
+      const result = BrowserslistDiffSchema.parse(validInput);
+      expect(result).toEqual(validInput);
+    });
+
+    it('should reject input without a second query', () => {
+      expect(() => {
+        BrowserslistDiffSchema.parse({ from: { query: 'defaults' } });
+      }).toThrow();
+    });
+  });
+
+  describe('CoverageMatrixSchema', () => {
+    it('should validate a list of regions', () => {
+      const validInput = { queries: ['defaults'], regions: ['US', 'JP'] };
+
+      expect(CoverageMatrixSchema.parse(validInput)).toEqual(validInput);
+    });
+
+    it('should validate all continents', () => {
+      const validInput = { queries: ['defaults'], regions: 'continents' };
+
+      expect(CoverageMatrixSchema.parse(validInput)).toEqual(validInput);
+    });
+
+    it('should reject an empty query list', () => {
+      expect(() => {
+        CoverageMatrixSchema.parse({ queries: [], regions: ['US'] });
+      }).toThrow();
+    });
+  });
 });
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import browserslist from 'browserslist';
+import { getRegionUsage } from '../utils/usage.js';
+
+describe('Region Usage', () => {
+  describe('getRegionUsage', () => {
+    it('should match the region data browserslist loads', () => {
+      const browsers = browserslist('> 0%, dead');
+      for (const code of ['JP', 'US', 'alt-as', 'alt-ww']) {
+        expect(browserslist.coverage(browsers, getRegionUsage(code))).toBe(browserslist.coverage(browsers, code));
+      }
+    });
+
+    it('should count version 0 shares as the latest version', () => {
+      const versions = browserslist.data.and_chr.versions;
+      const usage = getRegionUsage('JP');
+      expect(usage.and_chr[versions[versions.length - 1]]).toBeGreaterThan(0);
+      expect(usage.and_chr['0']).toBeUndefined();
+    });
+
+    it('should reject unknown regions', () => {
+      expect(() => getRegionUsage('XX')).toThrow('Unknown region name `XX`');
+      expect(() => getRegionUsage('constructor')).toThrow('Unknown region name');
+    });
+  });
+});
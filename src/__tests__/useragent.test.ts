@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { captureDataSnapshot } from '../utils/snapshot.js';
+import { detectUserAgent, generateUserAgentRegex, matchUserAgent } from '../utils/useragent.js';
+
+const USER_AGENTS = {
+  chrome: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  edge: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.2210.91',
+  safari: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2.1 Safari/605.1.15',
+  chromeIos: 'Mozilla/5.0 (iPhone; CPU iPhone OS 16_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/120.0.6099.119 Mobile/15E148 Safari/604.1',
+  samsung: 'Mozilla/5.0 (Linux; Android 13; SAMSUNG SM-S918B) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/27.0 Chrome/125.0.0.0 Mobile Safari/537.36',
+  webView: 'Mozilla/5.0 (Linux; Android 13; Pixel 7 Build/TQ3A.230805.001; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/141.0.0.0 Mobile Safari/537.36',
+  ie11: 'Mozilla/5.0 (Windows NT 10.0; WOW64; Trident/7.0; rv:11.0) like Gecko',
+  futureChrome: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/999.0.0.0 Safari/537.36',
+};
+
+describe('User-Agent Utilities', () => {
+  describe('detectUserAgent', () => {
+    it('should detect browsers that include other browsers\' tokens', () => {
+      expect(detectUserAgent(USER_AGENTS.chrome)).toEqual({ family: 'chrome', name: 'Chrome', version: '120.0.0.0', browser: 'chrome 120' });
+      expect(detectUserAgent(USER_AGENTS.edge)?.browser).toBe('edge 120');
+      expect(detectUserAgent(USER_AGENTS.samsung)?.browser).toBe('samsung 27');
+      expect(detectUserAgent(USER_AGENTS.webView)?.browser).toBe('android 141');
+    });
+
+    it('should map versions onto browserslist data versions', () => {
+      expect(detectUserAgent(USER_AGENTS.safari)?.browser).toBe('safari 17.2');
+      expect(detectUserAgent(USER_AGENTS.chromeIos)).toMatchObject({ family: 'ios_saf', version: '16.6', browser: 'ios_saf 16.6-16.7' });
+      expect(detectUserAgent(USER_AGENTS.ie11)?.browser).toBe('ie 11');
+    });
+
+    it('should keep versions newer than the bundled data without a browserslist entry', () => {
+      expect(detectUserAgent(USER_AGENTS.futureChrome)).toMatchObject({ family: 'chrome', version: '999.0.0.0', browser: null });
+    });
+
+    it('should return null for clients it cannot detect', () => {
+      expect(detectUserAgent('curl/8.4.0')).toBeNull();
+    });
+
+    it('should not backtrack on long User-Agents repeating rule tokens', () => {
+      const hostile = 'Mozilla/5.0 (Linux; Android; wv) Version/4.0 Trident/'.repeat(200);
+      const started = performance.now();
+
+      expect(detectUserAgent(hostile)).toBeNull();
+      expect(new RegExp(generateUserAgentRegex({ query: 'defaults, android >= 4' }).regex).test(hostile)).toBe(false);
+      expect(performance.now() - started).toBeLessThan(200);
+    });
+  });
+
+  describe('matchUserAgent', () => {
+    it('should match a targeted browser', () => {
+      const result = matchUserAgent({ userAgent: USER_AGENTS.chrome, query: 'chrome >= 110' });
+
+      expect(result.matched).toBe(true);
+      expect(result.nearest).toBeNull();
+    });
+
+    it('should report the nearest targeted version of an untargeted browser', () => {
+      const result = matchUserAgent({ userAgent: USER_AGENTS.chrome, query: 'chrome 118, chrome 121, chrome 125' });
+
+      expect(result.matched).toBe(false);
+      expect(result.detected?.browser).toBe('chrome 120');
+      expect(result.nearest).toBe('chrome 121');
+    });
+
+    it('should detect versions against the data snapshot of the query', () => {
+      const dataSnapshot = captureDataSnapshot();
+      const chrome = dataSnapshot.agents.chrome;
+      chrome.versions = chrome.versions.filter((version) => Number(version) < 120);
+      chrome.released = chrome.released.filter((version) => Number(version) < 120);
+
+      const result = matchUserAgent({ userAgent: USER_AGENTS.chrome, query: 'last 1 chrome version', options: { dataSnapshot } });
+
+      expect(result.detected?.browser).toBeNull();
+      expect(result.nearest).toBe('chrome 119');
+    });
+
+    it('should have no nearest version when the family is not targeted', () => {
+      const result = matchUserAgent({ userAgent: USER_AGENTS.ie11, query: 'defaults, not ie 11' });
+
+      expect(result).toMatchObject({ matched: false, nearest: null });
+    });
+
+    it('should accept newer versions with allowHigherVersions', () => {
+      expect(matchUserAgent({ userAgent: USER_AGENTS.futureChrome, query: 'last 2 chrome versions' }).matched).toBe(false);
+      expect(matchUserAgent({ userAgent: USER_AGENTS.futureChrome, query: 'last 2 chrome versions', allowHigherVersions: true }).matched).toBe(true);
+      expect(matchUserAgent({ userAgent: USER_AGENTS.chrome, query: 'chrome >= 121', allowHigherVersions: true }).matched).toBe(false);
+    });
+
+    it('should not match undetected clients', () => {
+      expect(matchUserAgent({ userAgent: 'curl/8.4.0', query: 'defaults' })).toMatchObject({ matched: false, detected: null, nearest: null });
+    });
+  });
+
+  describe('generateUserAgentRegex', () => {
+    it('should match targeted browsers and not browsers that include their tokens', () => {
+      const result = generateUserAgentRegex({ query: 'chrome 120, ie 11' });
+      const regex = new RegExp(result.regex);
+
+      expect(regex.test(USER_AGENTS.chrome)).toBe(true);
+      expect(regex.test(USER_AGENTS.ie11)).toBe(true);
+      expect(regex.test(USER_AGENTS.edge)).toBe(false);
+      expect(regex.test(USER_AGENTS.futureChrome)).toBe(false);
+      expect(result.families.map(({ family }) => family)).toEqual(['chrome', 'ie']);
+    });
+
+    it('should provide a pattern per family', () => {
+      const result = generateUserAgentRegex({ query: 'chrome 120, ie 11' });
+      const chrome = new RegExp(result.families[0].pattern);
+
+      expect(result.families[0].versions).toEqual(['120']);
+      expect(chrome.test(USER_AGENTS.chrome)).toBe(true);
+      expect(chrome.test(USER_AGENTS.ie11)).toBe(false);
+    });
+
+    it('should match newer versions with allowHigherVersions', () => {
+      const regex = new RegExp(generateUserAgentRegex({ query: 'chrome 120', allowHigherVersions: true }).regex);
+
+      expect(regex.test(USER_AGENTS.futureChrome)).toBe(true);
+      expect(regex.test(USER_AGENTS.chrome.replace('Chrome/120', 'Chrome/119'))).toBe(false);
+    });
+
+    it('should only match zero patch releases without ignorePatch', () => {
+      const released = USER_AGENTS.safari.replace('Version/17.2.1', 'Version/17.2');
+      const anyPatch = new RegExp(generateUserAgentRegex({ query: 'safari 17.2' }).regex);
+      const zeroPatch = new RegExp(generateUserAgentRegex({ query: 'safari 17.2', ignorePatch: false }).regex);
+
+      expect(anyPatch.test(USER_AGENTS.safari)).toBe(true);
+      expect(zeroPatch.test(USER_AGENTS.safari)).toBe(false);
+      expect(zeroPatch.test(released)).toBe(true);
+    });
+
+    it('should pass its self-test with samples that match and samples that do not', () => {
+      for (const input of [{ query: 'defaults' }, { query: 'defaults', allowHigherVersions: true }, { query: 'defaults', ignorePatch: false }]) {
+        const { selfTest } = generateUserAgentRegex(input);
+
+        expect(selfTest.passed).toBe(true);
+        expect(selfTest.samples.some((sample) => sample.matched)).toBe(true);
+        expect(selfTest.samples.some((sample) => !sample.matched)).toBe(true);
+      }
+    });
+
+    it('should skip browsers no User-Agent identifies', () => {
+      const result = generateUserAgentRegex({ query: 'node 20, chrome 120' });
+
+      expect(result.skipped).toEqual(expect.arrayContaining([expect.stringMatching(/^node 20/)]));
+      expect(result.families.map(({ family }) => family)).toEqual(['chrome']);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import browserslist from 'browserslist';
+
+// Bundlers follow browserslist's "browser" field and swap its Node environment for the client-side one, which
+// cannot read config files or load region and feature data. Load that build here so tests see what the Worker sees.
+vi.hoisted(async () => {
+  const { createRequire } = await import('node:module');
+  const require = createRequire(import.meta.url);
+  require.cache[require.resolve('browserslist/node.js')] = { exports: require('browserslist/browser.js') } as NodeModule;
+});
+
+import workerModule from '../worker/index.js';
+import { getBrowserslistCoverage } from '../utils/browserslist.js';
+import { getRegionInfo } from '../utils/regions.js';
+
+async function post(path: string, body: unknown) {
+  const request = new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return workerModule.fetch(request, {}, {} as any);
+}
+
+async function callTool(name: string, args: Record<string, unknown>) {
+  const transport = new StreamableHTTPClientTransport(new URL('http://localhost/mcp'), {
+    fetch: async (url, init) => workerModule.fetch(new Request(url, init), {}, {} as any)
+  });
+  const client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+  await client.connect(transport);
+  try {
+    return await client.callTool({ name, arguments: args });
+  } finally {
+    await client.close();
+  }
+}
+
+describe('Worker with the client-side browserslist build', () => {
+  it('should run with the client-side build', () => {
+    expect(() => browserslist.coverage(['chrome 120'], 'JP')).toThrow('client-side build');
+  });
+
+  it('should compute regional coverage', () => {
+    const result = getBrowserslistCoverage(['chrome 120', 'safari 17.0'], { region: 'JP' });
+    expect(result.countryCode).toBe('JP');
+    expect(result.coverage).toBeGreaterThan(0);
+  });
+
+  it('should describe regions with their most used browsers', () => {
+    expect(getRegionInfo('JP', 3).topBrowsers).toHaveLength(3);
+  });
+
+  it('should handle regional coverage endpoint', async () => {
+    const response = await post('/api/coverage', { browsers: ['chrome 120', 'safari 17.0'], region: 'alt-AS' });
+    expect(response.status).toBe(200);
+
+    const data = await response.json() as any;
+    expect(data.countryCode).toBe('alt-as');
+    expect(data.coverage).toBeGreaterThan(0);
+  });
+
+  it('should handle coverage matrix endpoint', async () => {
+    const response = await post('/api/coverage/matrix', { queries: ['defaults'], regions: 'continents' });
+    expect(response.status).toBe(200);
+
+    const data = await response.json() as any;
+    expect(data.rows[0].coverage['alt-as']).toBeGreaterThan(0);
+  });
+
+  it('should plan a differential build for a region', async () => {
+    const response = await post('/api/differential', {
+      modern: 'defaults and last 2 years',
+      legacy: 'defaults and not last 2 years',
+      region: 'JP'
+    });
+    expect(response.status).toBe(200);
+
+    const data = await response.json() as any;
+    expect(data.countryCode).toBe('JP');
+    expect(data.modern.coverage).toBeGreaterThan(0);
+    expect(data.moduleSupport.supported).toBe(true);
+  });
+
+  it('should report that supports queries are unavailable', async () => {
+    const response = await post('/api/differential', { modern: 'supports es6-module', legacy: 'defaults' });
+    expect(response.status).toBe(400);
+
+    const data = await response.json() as any;
+    expect(data.error).toContain('client-side build');
+  });
+
+  it('should suggest queries for a region', async () => {
+    const result = await callTool('suggest_query', { coverage: 85, region: 'JP', limit: 3 });
+    expect(result.isError).toBeFalsy();
+
+    const data = result.structuredContent as any;
+    expect(data.countryCode).toBe('JP');
+    expect(data.candidates[0].query).toContain('in JP');
+    expect(data.candidates[0].coverage).toBeGreaterThan(0);
+  });
+});
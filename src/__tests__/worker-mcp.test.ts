@@ -87,6 +87,16 @@ describe('Cloudflare Worker MCP Protocol Compatibility', () => {
     expect(toolNames).toContain('query_browsers');
     expect(toolNames).toContain('get_defaults');
     expect(toolNames).toContain('get_coverage');
+    expect(toolNames).toContain('explain_query');
+    expect(toolNames).toContain('search_features');
+    expect(toolNames).toContain('get_browser_info');
+    expect(toolNames).toContain('list_regions');
+    expect(toolNames).toContain('summarize_engines');
+    expect(toolNames).toContain('match_user_agent');
+    expect(toolNames).toContain('generate_ua_regex');
+    expect(toolNames).toContain('plan_differential_build');
+    expect(toolNames).toContain('snapshot_targets');
+    expect(toolNames).toContain('check_drift');
   });
 
   it.skip('should call query_browsers tool via MCP protocol', async () => {
@@ -215,6 +225,9 @@ describe('Cloudflare Worker MCP Protocol Compatibility', () => {
     const resourceUris = resources.resources.map(r => r.uri);
     expect(resourceUris).toContain('browserslist://documentation');
     expect(resourceUris).toContain('browserslist://examples');
+    expect(resourceUris).toContain('browserslist://features');
+    expect(resourceUris).toContain('browserslist://browsers');
+    expect(resourceUris).toContain('browserslist://regions');
   });
 
   it.skip('should read documentation resource via MCP protocol', async () => {
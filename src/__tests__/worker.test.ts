@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeAll } from 'vitest';
+import { captureDataSnapshot } from '../utils/snapshot.js';
 
 // Mock the Cloudflare Worker environment
 describe('Cloudflare Worker', () => {
@@ -38,6 +39,7 @@ describe('Cloudflare Worker', () => {
     const data = await response.json();
     expect(data.status).toBe('ok');
     expect(data.service).toBe('browserslist-mcp');
+    expect(data.data.browserslist).toMatch(/^\d+\.\d+\.\d+$/);
   });
 
   it('should handle query endpoint', async () => {
@@ -58,6 +60,45 @@ describe('Cloudflare Worker', () => {
     expect(data.count).toBeGreaterThan(0);
   });
 
+  it('should handle explain endpoint', async () => {
+    const request = new Request('http://localhost/api/explain', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'last 1 version, not dead' })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+    
+    const data = await response.json();
+    expect(data.steps).toHaveLength(2);
+    expect(data.steps[1].not).toBe(true);
+    expect(data.count).toBe(data.browsers.length);
+  });
+
+  it('should handle diff endpoint', async () => {
+    const request = new Request('http://localhost/api/diff', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        from: { query: 'chrome 100' },
+        to: { query: 'chrome 100, firefox 100' }
+      })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+    
+    const data = await response.json();
+    expect(data.added).toEqual(['firefox 100']);
+    expect(data.families).toBeInstanceOf(Array);
+    expect(typeof data.coverage.delta).toBe('number');
+  });
+
   it('should handle defaults endpoint', async () => {
     const request = new Request('http://localhost/api/defaults');
     const env = {};
@@ -88,6 +129,286 @@ describe('Cloudflare Worker', () => {
     expect(typeof data.coverage).toBe('number');
   });
 
+  it('should handle regional coverage endpoint', async () => {
+    const request = new Request('http://localhost/api/coverage', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ browsers: ['chrome 120', 'safari 17.0'], region: 'JP' })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+    
+    const data = await response.json();
+    expect(data.countryCode).toBe('JP');
+    expect(typeof data.coverage).toBe('number');
+  });
+
+  it('should handle query endpoint with advanced options', async () => {
+    const request = new Request('http://localhost/api/query', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'android 120', options: { mobileToDesktop: true, dangerousExtend: true } })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+    
+    const data = await response.json();
+    expect(data.browsers).toEqual(['android 120']);
+    expect(data.options.mobileToDesktop).toBe(true);
+    expect(data.options.dangerousExtend).toBe(false);
+  });
+
+  it('should handle query endpoint with a data snapshot', async () => {
+    const dataSnapshot = captureDataSnapshot();
+    const request = new Request('http://localhost/api/query', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'last 1 chrome versions', options: { dataSnapshot } })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+    
+    const data = await response.json();
+    expect(data.count).toBe(1);
+    expect(data.dataSnapshot.dataDate).toBe(dataSnapshot.dataDate);
+  });
+
+  it('should handle coverage matrix endpoint', async () => {
+    const request = new Request('http://localhost/api/coverage/matrix', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ queries: ['defaults', 'last 1 version'], regions: ['US', 'alt-EU'] })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+    
+    const data = await response.json();
+    expect(data.regions).toEqual(['US', 'alt-eu']);
+    expect(data.rows).toHaveLength(2);
+    expect(typeof data.rows[1].coverage['alt-eu']).toBe('number');
+  });
+
+  it('should handle feature support endpoint', async () => {
+    const request = new Request('http://localhost/api/features/check', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'last 1 chrome version', features: ['es6-module'] })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+    
+    const data = await response.json();
+    expect(data.features[0].id).toBe('es6-module');
+    expect(data.features[0].browsers[0].support).toBe('supported');
+  });
+
+  it('should reject feature support request without targets', async () => {
+    const request = new Request('http://localhost/api/features/check', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ features: ['es6-module'] })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(400);
+  });
+
+  it('should handle targets endpoint', async () => {
+    const request = new Request('http://localhost/api/targets', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'chrome 100, safari 16.0' })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+    
+    const data = await response.json();
+    expect(data.esbuild).toEqual(['chrome100', 'safari16.0']);
+    expect(data.babel).toEqual({ chrome: '100', safari: '16.0' });
+  });
+
+  it('should handle config resolve endpoint', async () => {
+    const request = new Request('http://localhost/api/config/resolve', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content: '[production]\n> 1%\n\n[development]\nlast 1 chrome version' })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+    
+    const data = await response.json();
+    expect(data.format).toBe('browserslistrc');
+    expect(data.envs.map((e: any) => e.env)).toEqual(['production', 'development']);
+  });
+
+  it('should handle lint endpoint', async () => {
+    const request = new Request('http://localhost/api/lint', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'last 2 versions' })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+    
+    const data = await response.json();
+    expect(data.findings.map((f: any) => f.ruleId)).toContain('missing-not-dead');
+    expect(data.summary.warnings).toBeGreaterThan(0);
+  });
+
+  it('should handle node endpoint', async () => {
+    const request = new Request('http://localhost/api/node', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'node 18.0.0' })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+    
+    const data = await response.json();
+    expect(data.versions[0].releaseLine).toBe('v18');
+    expect(data.versions[0].endOfLife).toBe('2025-04-30');
+  });
+
+  it('should handle electron endpoint', async () => {
+    const request = new Request('http://localhost/api/electron', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ electron: '25' })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+    
+    const data = await response.json();
+    expect(data.browsers).toEqual(['chrome 114']);
+    expect(data.mappings[0].electron).toContain('25.0');
+  });
+
+  it('should handle User-Agent matching endpoint', async () => {
+    const request = new Request('http://localhost/api/match-ua', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; WOW64; Trident/7.0; rv:11.0) like Gecko'
+      },
+      body: JSON.stringify({ query: 'defaults' })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+    
+    const data = await response.json();
+    expect(data.matched).toBe(false);
+    expect(data.detected.browser).toBe('ie 11');
+  });
+
+  it('should reject oversized User-Agents and truncate the header fallback', async () => {
+    const ie11 = 'Mozilla/5.0 (Windows NT 10.0; WOW64; Trident/7.0; rv:11.0) like Gecko';
+    const env = {};
+    const ctx = {} as any;
+
+    const tooLong = new Request('http://localhost/api/match-ua', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'defaults', userAgent: ie11.padEnd(1025, ' ') })
+    });
+    expect((await workerModule.default.fetch(tooLong, env, ctx)).status).toBe(400);
+
+    const longHeader = new Request('http://localhost/api/match-ua', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'User-Agent': `${ie11} ${'x'.repeat(2000)}` },
+      body: JSON.stringify({ query: 'defaults' })
+    });
+    const response = await workerModule.default.fetch(longHeader, env, ctx);
+    expect(response.status).toBe(200);
+
+    const data = await response.json();
+    expect(data.userAgent).toHaveLength(1024);
+    expect(data.detected.browser).toBe('ie 11');
+  });
+
+  it('should handle User-Agent regex endpoint', async () => {
+    const request = new Request('http://localhost/api/ua-regex', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'last 2 chrome versions', allowHigherVersions: true })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+    
+    const data = await response.json();
+    expect(data.families[0].family).toBe('chrome');
+    expect(data.selfTest.passed).toBe(true);
+    expect(new RegExp(data.regex).test('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/999.0.0.0 Safari/537.36')).toBe(true);
+  });
+
+  it('should handle differential build endpoint', async () => {
+    const request = new Request('http://localhost/api/differential', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ modern: 'chrome >= 100', legacy: 'chrome 60 - 96' })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+    
+    const data = await response.json();
+    expect(data.gaps).toEqual(['chrome 97', 'chrome 98', 'chrome 99']);
+    expect(data.moduleSupport.legacyWithModules).toContain('chrome 61');
+  });
+
+  it('should handle data info endpoint', async () => {
+    const request = new Request('http://localhost/api/data-info?maxAgeDays=36500');
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+    
+    const data = await response.json();
+    expect(data.maxAgeDays).toBe(36500);
+    expect(data.stale).toBe(false);
+    expect(data.caniuseLite.dataDate).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+  });
+
   it('should handle documentation endpoint', async () => {
     const request = new Request('http://localhost/api/documentation');
     const env = {};
@@ -138,6 +459,41 @@ describe('Cloudflare Worker', () => {
     expect(data.error).toContain('not found');
   });
 
+  it('should group query results by browser family', async () => {
+    const request = new Request('http://localhost/api/query', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'chrome 100-105, edge 18', format: 'grouped' })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+    
+    const data = await response.json();
+    expect(data.count).toBe(7);
+    expect(data.families[0].ranges).toEqual(['chrome 100-105']);
+    expect(data.families[1].engine).toBe('EdgeHTML');
+  });
+
+  it('should summarize query results by engine', async () => {
+    const request = new Request('http://localhost/api/query', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'samsung 27, safari 17.0', format: 'engines' })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(200);
+    
+    const data = await response.json();
+    expect(data.engines.map((engine: { engine: string }) => engine.engine)).toEqual(['Blink', 'WebKit']);
+    expect(data.engines[0].minVersion).toBe('125');
+  });
+
   it('should handle invalid query gracefully', async () => {
     const request = new Request('http://localhost/api/query', {
       method: 'POST',
@@ -153,4 +509,23 @@ describe('Cloudflare Worker', () => {
     const data = await response.json();
     expect(data.error).toBeDefined();
   });
+
+  it('should return a diagnostic with suggestions for a misspelled browser', async () => {
+    const request = new Request('http://localhost/api/query', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'defaults, chrom > 90' })
+    });
+    const env = {};
+    const ctx = {} as any;
+
+    const response = await workerModule.default.fetch(request, env, ctx);
+    expect(response.status).toBe(400);
+    
+    const data = await response.json();
+    expect(data.error).toContain('Unknown browser chrom');
+    expect(data.diagnostic.code).toBe('unknown-browser');
+    expect(data.diagnostic.clause).toBe('chrom > 90');
+    expect(data.diagnostic.suggestions).toContain('defaults, chrome > 90');
+  });
 });
@@ -1,9 +1,88 @@
 #!/usr/bin/env node
 
+import { existsSync } from 'node:fs';
 import { startServer } from './server/index.js';
+import { checkTargetDriftFile, formatTargetDrift, saveTargetSnapshot } from './utils/drift.js';
+import { loadDataSnapshots, saveDataSnapshot } from './utils/snapshot.js';
 
-// Start the MCP server
-startServer().catch((error) => {
+const DEFAULT_TARGET_SNAPSHOT = 'browserslist.lock.json';
+
+const USAGE = `Usage: browserslist-mcp [command]
+
+Starts the MCP server on stdio when no command is given.
+
+Commands:
+  capture-snapshot [file]               Capture the bundled browser data to a snapshot file
+  snapshot-targets [config] [lockfile]  Record the browsers each environment of a config resolves to
+  check-drift [lockfile]                Exit with code 1 when the browsers of a target snapshot changed`;
+
+const [command, file, output] = process.argv.slice(2);
+
+/**
+ * Capture the bundled browser data to a snapshot file
+ */
+async function captureSnapshot() {
+  const snapshot = await saveDataSnapshot(file ?? `${new Date().toISOString().slice(0, 10)}.json`);
+  console.error(`Captured browser data from ${snapshot.dataDate} (caniuse-lite ${snapshot.caniuseLite})`);
+}
+
+/**
+ * Record the browsers each environment of a config resolves to, from .browserslistrc or package.json by default
+ */
+async function snapshotTargets() {
+  const config = file ?? (existsSync('.browserslistrc') ? '.browserslistrc' : 'package.json');
+  const snapshot = await saveTargetSnapshot(config, output ?? DEFAULT_TARGET_SNAPSHOT);
+  console.error(`Recorded targets of ${Object.keys(snapshot.envs).join(', ')} from ${config} (caniuse-lite ${snapshot.caniuseLite})`);
+}
+
+/**
+ * Compare the current resolution to a target snapshot, failing when browsers were added or removed
+ */
+async function checkDrift() {
+  const drift = await checkTargetDriftFile(file ?? DEFAULT_TARGET_SNAPSHOT);
+  console.error(formatTargetDrift(drift));
+  if (drift.drifted) {
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Load data snapshots, then start the MCP server
+ */
+async function start() {
+  if (process.env.BROWSERSLIST_SNAPSHOTS_DIR) {
+    const names = await loadDataSnapshots(process.env.BROWSERSLIST_SNAPSHOTS_DIR);
+    console.error(`Loaded data snapshots: ${names.join(', ') || 'none'}`);
+  }
+  await startServer();
+}
+
+const commands: Record<string, () => Promise<void>> = {
+  'capture-snapshot': captureSnapshot,
+  'snapshot-targets': snapshotTargets,
+  'check-drift': checkDrift
+};
+
+/**
+ * Run a command, or start the server without one. Unknown commands fail instead of starting a server that waits on stdin.
+ */
+async function main() {
+  if (command === undefined) {
+    return start();
+  }
+  if (command === '--help' || command === '-h') {
+    console.error(USAGE);
+    return;
+  }
+  if (!Object.hasOwn(commands, command)) {
+    console.error(`Unknown command \`${command}\`\n\n${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+  return commands[command]();
+}
+
+main().catch((error) => {
   console.error('Fatal error:', error);
   process.exit(1);
 });
@@ -3,6 +3,21 @@
  * This provides comprehensive information about how to write browserslist queries
  */
 
+import { listBrowserFamilies } from '../utils/families.js';
+
+/**
+ * List browser names and the aliases browserslist accepts for them, from the live browser data
+ */
+function formatBrowserNames(): string {
+  return listBrowserFamilies()
+    .map(({ family, name, aliases, oldest, newest }) => {
+      const queryNames = aliases.filter((alias) => alias !== name && !alias.includes(' '));
+      const versions = oldest === newest ? newest : `${oldest} to ${newest}`;
+      return `- ${queryNames.map((alias) => `\`${alias}\``).join(' / ')} - ${name} (${versions})`;
+    })
+    .join('\n');
+}
+
 export const BROWSERSLIST_DOCUMENTATION = `
 # Browserslist Query Syntax
 
@@ -61,28 +76,9 @@ You can combine queries using boolean operators:
 
 ## Browser Names
 
-Supported browser names (case insensitive):
-- \`Android\` - Android WebView
-- \`Baidu\` - Baidu Browser
-- \`BlackBerry\` / \`bb\` - BlackBerry browser
-- \`Chrome\` - Google Chrome
-- \`ChromeAndroid\` / \`and_chr\` - Chrome for Android
-- \`Edge\` - Microsoft Edge
-- \`Electron\` - Electron framework
-- \`Explorer\` / \`ie\` - Internet Explorer
-- \`ExplorerMobile\` / \`ie_mob\` - Internet Explorer Mobile
-- \`Firefox\` / \`ff\` - Mozilla Firefox
-- \`FirefoxAndroid\` / \`and_ff\` - Firefox for Android
-- \`iOS\` / \`ios_saf\` - iOS Safari
-- \`Node\` - Node.js
-- \`Opera\` - Opera
-- \`OperaMini\` / \`op_mini\` - Opera Mini
-- \`OperaMobile\` / \`op_mob\` - Opera Mobile
-- \`QQAndroid\` / \`and_qq\` - QQ Browser for Android
-- \`Safari\` - desktop Safari
-- \`Samsung\` - Samsung Internet
-- \`UCAndroid\` / \`and_uc\` - UC Browser for Android
-- \`kaios\` - KaiOS Browser
+Supported browser names (case insensitive), generated from the bundled data:
+${formatBrowserNames()}
+- \`Electron\` - Electron, resolved to the Chrome version it ships
 
 ## Configuration Files
 
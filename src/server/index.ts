@@ -1,7 +1,44 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
-import { executeBrowserslistQuery, getBrowserslistCoverage, getBrowserslistDefaults } from '../utils/browserslist.js';
+import {
+  configureBrowserslistFromProcessEnv,
+  diffBrowserslistQueries,
+  executeBrowserslistQuery,
+  explainBrowserslistQuery,
+  formatCoverageMatrix,
+  getBrowserslistCoverage,
+  getBrowserslistDefaults,
+  getCoverageMatrix,
+} from '../utils/browserslist.js';
+import {
+  checkFeatureSupport,
+  getCaniuseFeature,
+  listCaniuseFeatures,
+  searchCaniuseFeatures,
+} from '../utils/caniuse.js';
+import { resolveBrowserslistConfig } from '../utils/config.js';
+import { getDataInfo } from '../utils/data.js';
+import { formatToolError } from '../utils/diagnostics.js';
+import { planDifferentialBuild } from '../utils/differential.js';
+import { captureTargetSnapshot, checkTargetDrift, formatTargetDrift } from '../utils/drift.js';
+import { mapElectronVersions } from '../utils/electron.js';
+import { getBrowserInfo, listBrowserFamilies } from '../utils/families.js';
+import { lintBrowserslistConfig } from '../utils/lint.js';
+import { queryNodeVersions } from '../utils/node.js';
+import { optimizeBrowserslistQuery } from '../utils/optimize.js';
+import { getRegionInfo, listRegions, REGION_CODES } from '../utils/regions.js';
+import { suggestBrowserslistQueries } from '../utils/suggest.js';
+import { exportBuildTargets } from '../utils/targets.js';
+import { generateUserAgentRegex, matchUserAgent } from '../utils/useragent.js';
+import {
+  BrowserslistOptionsSchema,
+  DataSnapshotReferenceSchema,
+  MAX_USER_AGENT_LENGTH,
+  QueryResultFormatSchema,
+  TargetSnapshotSchema,
+  UsageStatsSchema,
+} from '../types/index.js';
 import { BROWSERSLIST_DOCUMENTATION, BROWSERSLIST_EXAMPLES } from '../resources/documentation.js';
 
 /**
@@ -25,20 +62,1063 @@ export function createBrowserslistMCPServer() {
         'Accepts standard browserslist query syntax like "last 2 versions", "> 1%", "Chrome > 90", etc.',
       inputSchema: {
         query: z.string().describe('Browserslist query string (e.g., "last 2 versions", "> 1%", "chrome > 90")'),
+        options: BrowserslistOptionsSchema.optional(),
+        format: QueryResultFormatSchema.optional(),
+      },
+      outputSchema: {
+        browsers: z.array(z.string()),
+        query: z.string(),
+        count: z.number(),
         options: z.object({
-          env: z.string().optional().describe('Environment configuration (e.g., "production", "development")'),
-          path: z.string().optional().describe('Path to the directory containing browserslist config'),
+          env: z.string().optional(),
+          path: z.string().optional(),
+          config: z.string().optional(),
+          mobileToDesktop: z.boolean(),
+          ignoreUnknownVersions: z.boolean(),
+          throwOnMissing: z.boolean(),
+          dangerousExtend: z.boolean(),
+        }).optional(),
+        dataSnapshot: z.object({
+          name: z.string().optional(),
+          capturedAt: z.string(),
+          dataDate: z.string(),
+        }).optional(),
+        families: z.array(z.object({
+          family: z.string(),
+          name: z.string(),
+          engine: z.string(),
+          ranges: z.array(z.string()),
+          count: z.number(),
+          usage: z.number(),
+          versions: z.array(z.object({
+            version: z.string(),
+            engine: z.string(),
+            releaseDate: z.string().nullable(),
+            usage: z.number(),
+            dead: z.boolean(),
+          })),
+        })).optional(),
+        engines: z.array(z.object({
+          engine: z.string(),
+          jsEngine: z.string(),
+          minVersion: z.string().nullable(),
+          maxVersion: z.string().nullable(),
+          count: z.number(),
+          browsers: z.array(z.object({
+            browser: z.string(),
+            engineVersion: z.string().nullable(),
+          })),
+        })).optional(),
+      },
+    },
+    async ({ query, options, format }) => {
+      try {
+        const result = executeBrowserslistQuery({ query, options, format });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register explain_query tool
+   */
+  server.registerTool(
+    'explain_query',
+    {
+      title: 'Explain Query',
+      description:
+        'Break a browserslist query into its clauses (",", "or", "and", "not") and report, for each clause, ' +
+        'the browsers it matches, adds or removes, and the running result.',
+      inputSchema: {
+        query: z.string().describe('Browserslist query string (e.g., "> 0.5%, last 2 versions, not dead")'),
+        options: BrowserslistOptionsSchema.optional(),
+      },
+      outputSchema: {
+        browsers: z.array(z.string()),
+        query: z.string(),
+        count: z.number(),
+        steps: z.array(z.object({
+          index: z.number(),
+          clause: z.string(),
+          type: z.string(),
+          compose: z.enum(['or', 'and']),
+          not: z.boolean(),
+          matched: z.array(z.string()),
+          added: z.array(z.string()),
+          removed: z.array(z.string()),
+          result: z.array(z.string()),
+          count: z.number(),
+        })),
+      },
+    },
+    async ({ query, options }) => {
+      try {
+        const result = explainBrowserslistQuery({ query, options });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register diff_queries tool
+   */
+  server.registerTool(
+    'diff_queries',
+    {
+      title: 'Diff Queries',
+      description:
+        'Compare two browserslist queries and report the browsers added, removed and shared, ' +
+        'grouped by browser family, together with the global coverage delta.',
+      inputSchema: {
+        from: z.object({
+          query: z.string().describe('Current browserslist query (e.g., "defaults")'),
+          options: BrowserslistOptionsSchema.optional(),
+        }).describe('Query to compare from'),
+        to: z.object({
+          query: z.string().describe('Proposed browserslist query (e.g., "> 0.5%, last 2 versions, not dead")'),
+          options: BrowserslistOptionsSchema.optional(),
+        }).describe('Query to compare to'),
+      },
+      outputSchema: {
+        from: z.object({ browsers: z.array(z.string()), query: z.string(), count: z.number() }),
+        to: z.object({ browsers: z.array(z.string()), query: z.string(), count: z.number() }),
+        added: z.array(z.string()),
+        removed: z.array(z.string()),
+        shared: z.array(z.string()),
+        families: z.array(z.object({
+          family: z.string(),
+          added: z.array(z.string()),
+          removed: z.array(z.string()),
+          shared: z.array(z.string()),
+        })),
+        coverage: z.object({
+          from: z.number(),
+          to: z.number(),
+          delta: z.number(),
+        }),
+      },
+    },
+    async ({ from, to }) => {
+      try {
+        const result = diffBrowserslistQueries({ from, to });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register get_defaults tool
+   */
+  server.registerTool(
+    'get_defaults',
+    {
+      title: 'Get Defaults',
+      description: 'Get the default browserslist query configuration',
+      inputSchema: {},
+      outputSchema: {
+        defaults: z.string(),
+      },
+    },
+    async () => {
+      try {
+        const defaults = getBrowserslistDefaults();
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Default browserslist query: ${defaults}`,
+            },
+          ],
+          structuredContent: { defaults },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register get_data_info tool
+   */
+  server.registerTool(
+    'get_data_info',
+    {
+      title: 'Get Data Info',
+      description:
+        'Report the bundled browserslist version, the caniuse-lite version and data date, the electron-to-chromium version, ' +
+        'and a staleness warning when the browser data is older than maxAgeDays.',
+      inputSchema: {
+        maxAgeDays: z.number().int().positive().optional()
+          .describe('Age in days after which the browser data is reported as stale (default: 180)'),
+      },
+      outputSchema: {
+        browserslist: z.string(),
+        caniuseLite: z.object({
+          version: z.string(),
+          dataDate: z.string(),
+          ageDays: z.number(),
+        }),
+        electronToChromium: z.string(),
+        maxAgeDays: z.number(),
+        stale: z.boolean(),
+        warning: z.string().optional(),
+      },
+    },
+    async ({ maxAgeDays }) => {
+      try {
+        const result = getDataInfo(maxAgeDays);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register get_coverage tool
+   */
+  server.registerTool(
+    'get_coverage',
+    {
+      title: 'Get Coverage',
+      description:
+        'Get usage coverage for a list of browsers. Uses global usage by default, ' +
+        'or the usage of a region (e.g., "JP", "alt-AS") or custom usage statistics when given.',
+      inputSchema: {
+        browsers: z.array(z.string()).describe('Array of browser versions (e.g., ["chrome 90", "firefox 88"])'),
+        region: z.string().optional().describe('Country code or continent (e.g., "US", "JP", "alt-AS")'),
+        stats: UsageStatsSchema.optional().describe('Custom usage statistics (e.g., { "chrome": { "120": 12.5 } })'),
+        dataSnapshot: DataSnapshotReferenceSchema.optional()
+          .describe('Name of a loaded data snapshot, or the snapshot itself, to use for global usage instead of the bundled data'),
+      },
+      outputSchema: {
+        coverage: z.number(),
+        countryCode: z.string().optional(),
+        customStats: z.boolean().optional(),
+        dataSnapshot: z.object({
+          name: z.string().optional(),
+          capturedAt: z.string(),
+          dataDate: z.string(),
         }).optional(),
       },
+    },
+    async ({ browsers, region, stats, dataSnapshot }) => {
+      try {
+        const coverage = getBrowserslistCoverage(browsers, { region, stats, dataSnapshot });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(coverage, null, 2),
+            },
+          ],
+          structuredContent: coverage,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register coverage_matrix tool
+   */
+  server.registerTool(
+    'coverage_matrix',
+    {
+      title: 'Coverage Matrix',
+      description:
+        'Compute usage coverage of one or more browserslist queries across several regions at once. ' +
+        'Returns a Markdown table with one row per query and one column per region.',
+      inputSchema: {
+        queries: z.array(z.string()).min(1).describe('Browserslist queries to compare (e.g., ["defaults", "last 2 versions"])'),
+        regions: z.union([z.array(z.string()).min(1), z.literal('continents')])
+          .describe('Region codes (e.g., ["US", "JP", "alt-EU"]) or "continents" for every inhabited continent'),
+        options: BrowserslistOptionsSchema.optional(),
+      },
+      outputSchema: {
+        regions: z.array(z.string()),
+        rows: z.array(z.object({
+          query: z.string(),
+          count: z.number(),
+          coverage: z.record(z.string(), z.number()),
+        })),
+      },
+    },
+    async ({ queries, regions, options }) => {
+      try {
+        const matrix = getCoverageMatrix({ queries, regions, options });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatCoverageMatrix(matrix),
+            },
+          ],
+          structuredContent: matrix,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register check_feature_support tool
+   */
+  server.registerTool(
+    'check_feature_support',
+    {
+      title: 'Check Feature Support',
+      description:
+        'Check Can I Use features (e.g., "css-container-queries", "es6-module") against the browsers resolved ' +
+        'from a browserslist query or an explicit browser list. Reports per browser whether each feature is ' +
+        'supported, partially supported, prefixed or unsupported, and the audience share that lacks it.',
+      inputSchema: {
+        query: z.string().optional().describe('Browserslist query to resolve targets from (e.g., "defaults")'),
+        browsers: z.array(z.string()).optional().describe('Explicit browser versions (e.g., ["chrome 90", "safari 14.1"])'),
+        features: z.array(z.string()).min(1).describe('Can I Use feature ids (e.g., ["css-container-queries", "es6-module"])'),
+        region: z.string().optional().describe('Country code or continent to compute the audience share for (e.g., "JP", "alt-AS")'),
+        options: BrowserslistOptionsSchema.optional(),
+      },
+      outputSchema: {
+        query: z.string().optional(),
+        browsers: z.array(z.string()),
+        count: z.number(),
+        countryCode: z.string().optional(),
+        features: z.array(z.object({
+          id: z.string(),
+          title: z.string(),
+          browsers: z.array(z.object({
+            browser: z.string(),
+            support: z.enum(['supported', 'partial', 'prefixed', 'unsupported', 'unknown']),
+          })),
+          summary: z.record(z.string(), z.number()),
+          lacking: z.array(z.string()),
+          lackingShare: z.number(),
+        })),
+      },
+    },
+    async ({ query, browsers, features, region, options }) => {
+      try {
+        const result = checkFeatureSupport({ query, browsers, features, region, options });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register search_features tool
+   */
+  server.registerTool(
+    'search_features',
+    {
+      title: 'Search Features',
+      description:
+        'Search the Can I Use feature catalog by title or keywords (e.g., ":has()", "container queries") ' +
+        'to find feature ids for check_feature_support.',
+      inputSchema: {
+        query: z.string().describe('Feature name or keywords (e.g., ":has()", "container queries", "es modules")'),
+        limit: z.number().int().positive().optional().describe('Maximum number of results (default: 10)'),
+      },
+      outputSchema: {
+        query: z.string(),
+        results: z.array(z.object({
+          id: z.string(),
+          title: z.string(),
+          status: z.string(),
+          score: z.number(),
+        })),
+      },
+    },
+    async ({ query, limit }) => {
+      try {
+        const result = searchCaniuseFeatures(query, limit);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register export_targets tool
+   */
+  server.registerTool(
+    'export_targets',
+    {
+      title: 'Export Targets',
+      description:
+        'Convert the browsers resolved from a browserslist query into build-tool targets: esbuild "target" strings, ' +
+        'Babel "targets", SWC "env.targets", Lightning CSS integer targets and Vite "build.target". ' +
+        'Browsers a format cannot express are listed under "unmapped".',
+      inputSchema: {
+        query: z.string().describe('Browserslist query string (e.g., "defaults", "> 0.5%, last 2 versions, not dead")'),
+        options: BrowserslistOptionsSchema.optional(),
+      },
+      outputSchema: {
+        browsers: z.array(z.string()),
+        query: z.string(),
+        count: z.number(),
+        esbuild: z.array(z.string()),
+        babel: z.record(z.string(), z.string()),
+        swc: z.record(z.string(), z.string()),
+        lightningcss: z.record(z.string(), z.number()),
+        vite: z.array(z.string()),
+        unmapped: z.object({
+          esbuild: z.array(z.string()),
+          babel: z.array(z.string()),
+          swc: z.array(z.string()),
+          lightningcss: z.array(z.string()),
+          vite: z.array(z.string()),
+        }),
+      },
+    },
+    async ({ query, options }) => {
+      try {
+        const result = exportBuildTargets({ query, options });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register resolve_config tool
+   */
+  server.registerTool(
+    'resolve_config',
+    {
+      title: 'Resolve Config',
+      description:
+        'Parse the raw text of a .browserslistrc file or a package.json "browserslist" field and resolve ' +
+        'every environment section to its query and browsers. Works without access to the file system.',
+      inputSchema: {
+        content: z.string().describe('Raw text of a .browserslistrc file, a package.json file or its "browserslist" field'),
+        format: z.enum(['browserslistrc', 'package.json']).optional()
+          .describe('Format of the content (detected automatically when omitted)'),
+      },
+      outputSchema: {
+        format: z.enum(['browserslistrc', 'package.json']),
+        envs: z.array(z.object({
+          env: z.string(),
+          browsers: z.array(z.string()),
+          query: z.string(),
+          count: z.number(),
+        })),
+      },
+    },
+    async ({ content, format }) => {
+      try {
+        const result = resolveBrowserslistConfig({ content, format });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register lint_config tool
+   */
+  server.registerTool(
+    'lint_config',
+    {
+      title: 'Lint Config',
+      description:
+        'Lint a browserslist query or config and report problems with stable rule ids: missing "not dead", ' +
+        'IE or Opera Mini still targeted, regional-only queries with low global coverage, redundant clauses, ' +
+        '"last N versions" pulling in dead browsers and coverage gaps in given regions. ' +
+        'Each finding carries a severity, the offending clause and a suggested replacement query.',
+      inputSchema: {
+        query: z.string().optional().describe('Browserslist query to lint (e.g., "last 2 versions")'),
+        content: z.string().optional().describe('Raw text of a .browserslistrc file, a package.json file or its "browserslist" field'),
+        format: z.enum(['browserslistrc', 'package.json']).optional()
+          .describe('Format of the content (detected automatically when omitted)'),
+        options: BrowserslistOptionsSchema.optional(),
+        regions: z.array(z.string()).optional().describe('Country codes or continents to check for coverage gaps (e.g., ["JP", "US"])'),
+        threshold: z.number().min(0).max(100).optional().describe('Minimum acceptable coverage percentage (default: 80)'),
+      },
+      outputSchema: {
+        findings: z.array(z.object({
+          ruleId: z.string(),
+          severity: z.enum(['warning', 'info']),
+          message: z.string(),
+          env: z.string().optional(),
+          query: z.string(),
+          clause: z.string().optional(),
+          suggestion: z.string().optional(),
+        })),
+        summary: z.object({
+          warnings: z.number(),
+          info: z.number(),
+        }),
+      },
+    },
+    async ({ query, content, format, options, regions, threshold }) => {
+      try {
+        const result = lintBrowserslistConfig({ query, content, format, options, regions, threshold });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register suggest_query tool
+   */
+  server.registerTool(
+    'suggest_query',
+    {
+      title: 'Suggest Query',
+      description:
+        'Propose browserslist queries for coverage goals: a target coverage percentage, an optional region, ' +
+        'browsers that must be included or excluded, and whether to exclude dead browsers. ' +
+        'Candidates are ranked by whether they meet the target and by the number of versions they target.',
+      inputSchema: {
+        coverage: z.number().min(0).max(100).describe('Target coverage percentage (e.g., 95)'),
+        region: z.string().optional().describe('Country code or continent the coverage applies to (e.g., "JP", "alt-AS")'),
+        mustInclude: z.array(z.string()).optional().describe('Browsers or queries that must stay targeted (e.g., ["safari >= 15"])'),
+        mustExclude: z.array(z.string()).optional().describe('Browsers or queries that must not be targeted (e.g., ["ie 11", "op_mini all"])'),
+        excludeDead: z.boolean().optional().describe('Exclude dead browsers (default: true)'),
+        limit: z.number().int().positive().optional().describe('Maximum number of candidates (default: 5)'),
+      },
+      outputSchema: {
+        targetCoverage: z.number(),
+        countryCode: z.string().optional(),
+        candidates: z.array(z.object({
+          query: z.string(),
+          count: z.number(),
+          coverage: z.number(),
+          meetsTarget: z.boolean(),
+        })),
+      },
+    },
+    async ({ coverage, region, mustInclude, mustExclude, excludeDead, limit }) => {
+      try {
+        const result = suggestBrowserslistQueries({ coverage, region, mustInclude, mustExclude, excludeDead, limit });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register optimize_query tool
+   */
+  server.registerTool(
+    'optimize_query',
+    {
+      title: 'Optimize Query',
+      description:
+        'Shorten a verbose browserslist query: find the shortest query built from canonical clauses ' +
+        '("defaults", "> N%", "last N versions", "not dead", per-browser versions and ranges) that resolves to exactly the same browsers, ' +
+        'or a shorter one whose global usage difference stays within the tolerance. Also reports the original clauses that were redundant.',
+      inputSchema: {
+        query: z.string().describe('Browserslist query to shorten (e.g., "> 0.5%, last 2 versions, Firefox ESR, not dead, not ie 11")'),
+        options: BrowserslistOptionsSchema.optional(),
+        tolerance: z.number().min(0).max(100).optional()
+          .describe('Global usage percentage the shorter query may differ by (default: 0, exact match only)'),
+      },
+      outputSchema: {
+        original: z.object({
+          query: z.string(),
+          clauses: z.number(),
+          count: z.number(),
+        }),
+        optimized: z.object({
+          query: z.string(),
+          clauses: z.number(),
+          count: z.number(),
+          exact: z.boolean(),
+          missing: z.array(z.string()),
+          extra: z.array(z.string()),
+          difference: z.number(),
+        }),
+        redundantClauses: z.array(z.string()),
+        tolerance: z.number(),
+      },
+    },
+    async ({ query, options, tolerance }) => {
+      try {
+        const result = optimizeBrowserslistQuery({ query, options, tolerance });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register query_node tool
+   */
+  server.registerTool(
+    'query_node',
+    {
+      title: 'Query Node.js Versions',
+      description:
+        'Evaluate a Node.js query (e.g., "maintained node versions", "node >= 18", "current node", "last 2 node major versions") ' +
+        'and describe each resolved version with its release line, LTS status, release schedule phase and end-of-life date.',
+      inputSchema: {
+        query: z.string().describe('Browserslist query selecting Node.js versions (e.g., "maintained node versions")'),
+        options: BrowserslistOptionsSchema.optional(),
+      },
+      outputSchema: {
+        browsers: z.array(z.string()),
+        query: z.string(),
+        count: z.number(),
+        versions: z.array(z.object({
+          version: z.string(),
+          releaseLine: z.string(),
+          releaseDate: z.string().optional(),
+          lts: z.boolean(),
+          codename: z.string().optional(),
+          status: z.enum(['pending', 'current', 'active-lts', 'maintenance', 'end-of-life', 'unknown']),
+          ltsStart: z.string().optional(),
+          maintenanceStart: z.string().optional(),
+          endOfLife: z.string().optional(),
+          supported: z.boolean(),
+        })),
+      },
+    },
+    async ({ query, options }) => {
+      try {
+        const result = queryNodeVersions({ query, options });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register map_electron tool
+   */
+  server.registerTool(
+    'map_electron',
+    {
+      title: 'Map Electron',
+      description:
+        'Convert Electron versions or ranges to the Chrome versions they are built on, or Chromium versions back to Electron, ' +
+        'or expand a query such as "electron >= 25" into Chrome versions. Returns the resolved browsers with their coverage ' +
+        'and, for each Chrome version, the Electron versions built on it. Specify exactly one of electron, chrome or query.',
+      inputSchema: {
+        electron: z.string().optional().describe('Electron version or range (e.g., "25", ">= 25", "25 - 27")'),
+        chrome: z.string().optional().describe('Chromium version or range to find Electron versions for (e.g., "114", ">= 120")'),
+        query: z.string().optional().describe('Browserslist query to resolve, typically with electron clauses (e.g., "electron >= 25, not dead")'),
+        region: z.string().optional().describe('Country code or continent to compute coverage for (e.g., "JP", "alt-AS")'),
+        options: BrowserslistOptionsSchema.optional(),
+      },
+      outputSchema: {
+        browsers: z.array(z.string()),
+        query: z.string(),
+        count: z.number(),
+        coverage: z.number(),
+        countryCode: z.string().optional(),
+        mappings: z.array(z.object({
+          chrome: z.string(),
+          electron: z.array(z.string()),
+        })),
+      },
+    },
+    async ({ electron, chrome, query, region, options }) => {
+      try {
+        const result = mapElectronVersions({ electron, chrome, query, region, options });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register get_browser_info tool
+   */
+  server.registerTool(
+    'get_browser_info',
+    {
+      title: 'Get Browser Info',
+      description:
+        'Describe one browser family: display name, engine, the names and aliases queries accept for it, ' +
+        'its oldest and newest released versions, and every known version with release date, global usage and dead status.',
+      inputSchema: {
+        name: z.string().describe('Browser name or alias (e.g., "ios_saf", "iOS Safari", "ios", "chrome", "node")'),
+      },
+      outputSchema: {
+        family: z.string(),
+        name: z.string(),
+        engine: z.string(),
+        aliases: z.array(z.string()),
+        oldest: z.string(),
+        newest: z.string(),
+        count: z.number(),
+        versions: z.array(z.object({
+          version: z.string(),
+          engine: z.string(),
+          releaseDate: z.string().nullable(),
+          usage: z.number(),
+          dead: z.boolean(),
+        })),
+      },
+    },
+    async ({ name }) => {
+      try {
+        const result = getBrowserInfo(name);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register list_regions tool
+   */
+  server.registerTool(
+    'list_regions',
+    {
+      title: 'List Regions',
+      description:
+        'List the country and continent codes browserslist accepts in queries such as "> 1% in XX" and "cover 95% in XX", ' +
+        'with their English names and the most used browser versions in each region.',
+      inputSchema: {
+        search: z.string().optional().describe('Filter by code or name (e.g., "DE", "korea", "alt-")'),
+        limit: z.number().int().min(0).optional().describe('Top browser versions to list per region (default: 3)'),
+      },
+      outputSchema: {
+        regions: z.array(z.object({
+          code: z.string(),
+          name: z.string(),
+          type: z.enum(['country', 'continent', 'world']),
+          topBrowsers: z.array(z.object({
+            browser: z.string(),
+            name: z.string(),
+            usage: z.number(),
+          })),
+        })),
+      },
+    },
+    async ({ search, limit }) => {
+      try {
+        const result = { regions: listRegions(search, limit) };
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register summarize_engines tool
+   */
+  server.registerTool(
+    'summarize_engines',
+    {
+      title: 'Summarize Engines',
+      description:
+        'Resolve a browserslist query and group the browsers by rendering and JavaScript engine ' +
+        '(Blink/V8, Gecko/SpiderMonkey, WebKit/JavaScriptCore, legacy Trident, EdgeHTML and Presto) with the oldest engine version required. ' +
+        'Chromium-based browsers such as Samsung Internet, Opera and Edge are mapped to their Chromium version; WebKit versions are Safari versions.',
+      inputSchema: {
+        query: z.string().describe('Browserslist query string (e.g., "defaults", "last 2 versions")'),
+        options: BrowserslistOptionsSchema.optional(),
+      },
       outputSchema: {
         browsers: z.array(z.string()),
         query: z.string(),
         count: z.number(),
+        engines: z.array(z.object({
+          engine: z.string(),
+          jsEngine: z.string(),
+          minVersion: z.string().nullable(),
+          maxVersion: z.string().nullable(),
+          count: z.number(),
+          browsers: z.array(z.object({
+            browser: z.string(),
+            engineVersion: z.string().nullable(),
+          })),
+        })),
       },
     },
     async ({ query, options }) => {
       try {
-        const result = executeBrowserslistQuery({ query, options });
+        const { browsers, count, engines } = executeBrowserslistQuery({ query, options, format: 'engines' });
+        const result = { browsers, query, count, engines: engines ?? [] };
         return {
           content: [
             {
@@ -53,7 +1133,7 @@ export function createBrowserslistMCPServer() {
           content: [
             {
               type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              text: formatToolError(error),
             },
           ],
           isError: true,
@@ -63,36 +1143,53 @@ export function createBrowserslistMCPServer() {
   );
 
   /**
-   * Register get_defaults tool
+   * Register match_user_agent tool
    */
   server.registerTool(
-    'get_defaults',
+    'match_user_agent',
     {
-      title: 'Get Defaults',
-      description: 'Get the default browserslist query configuration',
-      inputSchema: {},
+      title: 'Match User-Agent',
+      description:
+        'Detect the browser and version of a User-Agent string with bundled rules (no network access) and report whether it is ' +
+        'one of the browsers a query targets, with the nearest targeted version of the same browser when it is not.',
+      inputSchema: {
+        userAgent: z.string().min(1).max(MAX_USER_AGENT_LENGTH).describe('User-Agent header of the client to check'),
+        query: z.string().describe('Browserslist query of the supported browsers (e.g., "defaults")'),
+        options: BrowserslistOptionsSchema.optional(),
+        allowHigherVersions: z.boolean().optional()
+          .describe('Also accept versions newer than the oldest targeted version of the browser, including versions newer than the bundled data'),
+      },
       outputSchema: {
-        defaults: z.string(),
+        userAgent: z.string(),
+        query: z.string(),
+        matched: z.boolean(),
+        detected: z.object({
+          family: z.string(),
+          name: z.string(),
+          version: z.string(),
+          browser: z.string().nullable(),
+        }).nullable(),
+        nearest: z.string().nullable(),
       },
     },
-    async () => {
+    async ({ userAgent, query, options, allowHigherVersions }) => {
       try {
-        const defaults = getBrowserslistDefaults();
+        const result = matchUserAgent({ userAgent, query, options, allowHigherVersions });
         return {
           content: [
             {
               type: 'text',
-              text: `Default browserslist query: ${defaults}`,
+              text: JSON.stringify(result, null, 2),
             },
           ],
-          structuredContent: { defaults },
+          structuredContent: result,
         };
       } catch (error) {
         return {
           content: [
             {
               type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              text: formatToolError(error),
             },
           ],
           isError: true,
@@ -102,38 +1199,219 @@ export function createBrowserslistMCPServer() {
   );
 
   /**
-   * Register get_coverage tool
+   * Register generate_ua_regex tool
    */
   server.registerTool(
-    'get_coverage',
+    'generate_ua_regex',
     {
-      title: 'Get Coverage',
-      description: 'Get global usage coverage for a list of browsers',
+      title: 'Generate User-Agent Regex',
+      description:
+        'Compile the browsers a query targets into one JavaScript regular expression matching their User-Agents (e.g., for ' +
+        'differential serving rules on a CDN), with a pattern per browser family. The result includes a self-test of the regex ' +
+        'against sample User-Agents of targeted and untargeted browsers.',
       inputSchema: {
-        browsers: z.array(z.string()).describe('Array of browser versions (e.g., ["chrome 90", "firefox 88"])'),
+        query: z.string().describe('Browserslist query of the supported browsers (e.g., "defaults")'),
+        options: BrowserslistOptionsSchema.optional(),
+        allowHigherVersions: z.boolean().optional()
+          .describe('Also match versions newer than the oldest targeted version of each browser, including versions newer than the bundled data'),
+        ignorePatch: z.boolean().optional()
+          .describe('Match every patch release of a targeted version, e.g., 17.2.1 for Safari 17.2 (default: true)'),
       },
       outputSchema: {
-        coverage: z.number(),
+        query: z.string(),
+        regex: z.string(),
+        families: z.array(z.object({
+          family: z.string(),
+          name: z.string(),
+          versions: z.array(z.string()),
+          pattern: z.string(),
+        })),
+        skipped: z.array(z.string()),
+        selfTest: z.object({
+          passed: z.boolean(),
+          samples: z.array(z.object({
+            browser: z.string(),
+            userAgent: z.string(),
+            expected: z.boolean(),
+            matched: z.boolean(),
+          })),
+        }),
       },
     },
-    async ({ browsers }) => {
+    async ({ query, options, allowHigherVersions, ignorePatch }) => {
       try {
-        const coverage = getBrowserslistCoverage(browsers);
+        const result = generateUserAgentRegex({ query, options, allowHigherVersions, ignorePatch });
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(coverage, null, 2),
+              text: JSON.stringify(result, null, 2),
             },
           ],
-          structuredContent: coverage,
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register plan_differential_build tool
+   */
+  server.registerTool(
+    'plan_differential_build',
+    {
+      title: 'Plan Differential Build',
+      description:
+        'Plan a module/nomodule (modern/legacy) build from a modern and a legacy query: the browsers in each bucket, browsers in ' +
+        'both, versions between the buckets that neither targets, the audience share of each bucket and of neither, whether every ' +
+        'modern browser supports <script type="module">, and legacy browsers that will load the modern bundle because they support it.',
+      inputSchema: {
+        modern: z.string().describe('Query of the browsers the modern (module) bundle targets (e.g., "defaults and last 2 years")'),
+        legacy: z.string().describe('Query of the browsers the legacy (nomodule) bundle targets (e.g., "defaults and not last 2 years")'),
+        options: BrowserslistOptionsSchema.optional(),
+        region: z.string().optional().describe('Country or region code to measure audience share in (e.g., "US", "alt-EU")'),
+      },
+      outputSchema: {
+        modern: z.object({ query: z.string(), browsers: z.array(z.string()), count: z.number(), coverage: z.number() }),
+        legacy: z.object({ query: z.string(), browsers: z.array(z.string()), count: z.number(), coverage: z.number() }),
+        overlap: z.array(z.string()),
+        gaps: z.array(z.string()),
+        moduleSupport: z.object({
+          supported: z.boolean(),
+          unsupported: z.array(z.string()),
+          legacyWithModules: z.array(z.string()),
+        }),
+        fallthrough: z.number(),
+        countryCode: z.string().optional(),
+      },
+    },
+    async ({ modern, legacy, options, region }) => {
+      try {
+        const result = planDifferentialBuild({ modern, legacy, options, region });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register snapshot_targets tool
+   */
+  server.registerTool(
+    'snapshot_targets',
+    {
+      title: 'Snapshot Targets',
+      description:
+        'Record the browsers and global coverage every environment of a .browserslistrc or package.json config resolves to, ' +
+        'as lockfile-style JSON to commit and later compare with check_drift. Works without access to the file system.',
+      inputSchema: {
+        content: z.string().describe('Raw text of a .browserslistrc file, a package.json file or its "browserslist" field'),
+        format: z.enum(['browserslistrc', 'package.json']).optional()
+          .describe('Format of the content (detected automatically when omitted)'),
+      },
+      outputSchema: TargetSnapshotSchema.shape,
+    },
+    async ({ content, format }) => {
+      try {
+        const result = captureTargetSnapshot({ content, format });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  /**
+   * Register check_drift tool
+   */
+  server.registerTool(
+    'check_drift',
+    {
+      title: 'Check Drift',
+      description:
+        'Resolve the queries of a snapshot_targets snapshot with the current browser data and report, per environment, the ' +
+        'browsers added and removed since the snapshot was taken, as a readable diff.',
+      inputSchema: {
+        snapshot: TargetSnapshotSchema.describe('Target snapshot to compare the current resolution to'),
+      },
+      outputSchema: {
+        drifted: z.boolean(),
+        snapshot: z.object({ capturedAt: z.string(), caniuseLite: z.string(), dataDate: z.string() }),
+        current: z.object({ caniuseLite: z.string(), dataDate: z.string() }),
+        envs: z.array(z.object({
+          env: z.string(),
+          query: z.string(),
+          added: z.array(z.string()),
+          removed: z.array(z.string()),
+          coverage: z.object({
+            snapshot: z.number(),
+            current: z.number(),
+            delta: z.number(),
+          }),
+        })),
+      },
+    },
+    async ({ snapshot }) => {
+      try {
+        const drift = checkTargetDrift({ snapshot });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatTargetDrift(drift),
+            },
+          ],
+          structuredContent: drift,
         };
       } catch (error) {
         return {
           content: [
             {
               type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              text: formatToolError(error),
             },
           ],
           isError: true,
@@ -186,6 +1464,185 @@ export function createBrowserslistMCPServer() {
     })
   );
 
+  /**
+   * Register region catalog resource
+   */
+  server.registerResource(
+    'regions',
+    'browserslist://regions',
+    {
+      title: 'Region Catalog',
+      description: 'Every country and continent code browserslist accepts, with names and the top browsers by usage',
+      mimeType: 'application/json',
+    },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify(listRegions(), null, 2),
+        },
+      ],
+    })
+  );
+
+  /**
+   * Register region resource template
+   */
+  server.registerResource(
+    'region',
+    new ResourceTemplate('browserslist://regions/{code}', {
+      list: undefined,
+      complete: {
+        code: (value) => REGION_CODES.filter((code) => code.toLowerCase().startsWith(value.toLowerCase())),
+      },
+    }),
+    {
+      title: 'Region',
+      description: 'Name, type and the ten most used browser versions of a country or continent',
+      mimeType: 'application/json',
+    },
+    async (uri, { code }) => {
+      const regionCode = Array.isArray(code) ? code[0] : code;
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(getRegionInfo(regionCode), null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  /**
+   * Register Can I Use feature catalog resource
+   */
+  server.registerResource(
+    'features',
+    'browserslist://features',
+    {
+      title: 'Can I Use Feature Catalog',
+      description: 'All Can I Use feature ids with their titles and specification status',
+      mimeType: 'application/json',
+    },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify(listCaniuseFeatures(), null, 2),
+        },
+      ],
+    })
+  );
+
+  /**
+   * Register Can I Use feature resource template
+   */
+  server.registerResource(
+    'feature',
+    new ResourceTemplate('browserslist://features/{id}', {
+      list: undefined,
+      complete: {
+        id: (value) => listCaniuseFeatures().map((feature) => feature.id).filter((id) => id.startsWith(value)),
+      },
+    }),
+    {
+      title: 'Can I Use Feature',
+      description: 'Support data of a Can I Use feature by browser and version',
+      mimeType: 'application/json',
+    },
+    async (uri, { id }) => {
+      const featureId = Array.isArray(id) ? id[0] : id;
+      const { title, status, stats } = getCaniuseFeature(featureId);
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify({ id: featureId, title, status, stats }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  /**
+   * Register data freshness resource
+   */
+  server.registerResource(
+    'data-info',
+    'browserslist://data-info',
+    {
+      title: 'Browser Data Info',
+      description: 'Versions of the bundled browserslist, caniuse-lite and electron-to-chromium data, and whether it is stale',
+      mimeType: 'application/json',
+    },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify(getDataInfo(), null, 2),
+        },
+      ],
+    })
+  );
+
+  /**
+   * Register browser catalog resource
+   */
+  server.registerResource(
+    'browsers',
+    'browserslist://browsers',
+    {
+      title: 'Browser Catalog',
+      description: 'All browser families with their display names, engines, aliases and oldest and newest versions',
+      mimeType: 'application/json',
+    },
+    async (uri) => ({
+      contents: [
+        {
+          uri: uri.href,
+          mimeType: 'application/json',
+          text: JSON.stringify(listBrowserFamilies(), null, 2),
+        },
+      ],
+    })
+  );
+
+  /**
+   * Register browser family resource template
+   */
+  server.registerResource(
+    'browser',
+    new ResourceTemplate('browserslist://browsers/{name}', {
+      list: undefined,
+      complete: {
+        name: (value) => listBrowserFamilies().map((browser) => browser.family).filter((family) => family.startsWith(value)),
+      },
+    }),
+    {
+      title: 'Browser Family',
+      description: 'Every known version of a browser family with release dates, usage and dead status',
+      mimeType: 'application/json',
+    },
+    async (uri, { name }) => {
+      const browserName = Array.isArray(name) ? name[0] : name;
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(getBrowserInfo(browserName), null, 2),
+          },
+        ],
+      };
+    }
+  );
+
   return server;
 }
 
@@ -193,6 +1650,7 @@ export function createBrowserslistMCPServer() {
  * Start the MCP server with stdio transport
  */
 export async function startServer() {
+  configureBrowserslistFromProcessEnv();
   const server = createBrowserslistMCPServer();
   const transport = new StdioServerTransport();
   
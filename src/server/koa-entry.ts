@@ -1,7 +1,13 @@
 #!/usr/bin/env node
 
 import { startKoaServer } from './koa.js';
+import { loadDataSnapshots } from '../utils/snapshot.js';
 
 const port = process.env.PORT ? parseInt(process.env.PORT) : 3000;
 
+if (process.env.BROWSERSLIST_SNAPSHOTS_DIR) {
+  const names = await loadDataSnapshots(process.env.BROWSERSLIST_SNAPSHOTS_DIR);
+  console.log(`Loaded data snapshots: ${names.join(', ') || 'none'}`);
+}
+
 startKoaServer(port);
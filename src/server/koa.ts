@@ -1,8 +1,41 @@
 import Koa from 'koa';
 import Router from '@koa/router';
 import bodyParser from 'koa-bodyparser';
-import { executeBrowserslistQuery, getBrowserslistCoverage, getBrowserslistDefaults } from '../utils/browserslist.js';
-import { BrowserslistQuerySchema } from '../types/index.js';
+import {
+  configureBrowserslistFromProcessEnv,
+  diffBrowserslistQueries,
+  executeBrowserslistQuery,
+  explainBrowserslistQuery,
+  getBrowserslistCoverage,
+  getBrowserslistDefaults,
+  getCoverageMatrix,
+} from '../utils/browserslist.js';
+import { checkFeatureSupport } from '../utils/caniuse.js';
+import { resolveBrowserslistConfig } from '../utils/config.js';
+import { getDataInfo } from '../utils/data.js';
+import { planDifferentialBuild } from '../utils/differential.js';
+import { mapElectronVersions } from '../utils/electron.js';
+import { toErrorEnvelope } from '../utils/diagnostics.js';
+import { lintBrowserslistConfig } from '../utils/lint.js';
+import { queryNodeVersions } from '../utils/node.js';
+import { exportBuildTargets } from '../utils/targets.js';
+import { generateUserAgentRegex, matchUserAgent } from '../utils/useragent.js';
+import {
+  BrowserslistDiffSchema,
+  BrowserslistQuerySchema,
+  ConfigResolveSchema,
+  CoverageMatrixSchema,
+  DataInfoSchema,
+  DataSnapshotReferenceSchema,
+  DifferentialBuildSchema,
+  ElectronMappingSchema,
+  FeatureSupportSchema,
+  LintConfigSchema,
+  MAX_USER_AGENT_LENGTH,
+  UsageStatsSchema,
+  UserAgentMatchSchema,
+  UserAgentRegexSchema,
+} from '../types/index.js';
 import { BROWSERSLIST_DOCUMENTATION, BROWSERSLIST_EXAMPLES } from '../resources/documentation.js';
 
 /**
@@ -22,15 +55,13 @@ export function createKoaApp() {
     } catch (err) {
       const error = err as Error;
       ctx.status = 400;
-      ctx.body = {
-        error: error.message || 'Internal server error',
-      };
+      ctx.body = toErrorEnvelope(error.message || 'Internal server error', err);
     }
   });
 
   // Health check endpoint
   router.get('/health', (ctx) => {
-    ctx.body = { status: 'ok', service: 'browserslist-mcp' };
+    ctx.body = { status: 'ok', service: 'browserslist-mcp', data: getDataInfo() };
   });
 
   // Query browsers endpoint
@@ -40,6 +71,20 @@ export function createKoaApp() {
     ctx.body = result;
   });
 
+  // Explain query endpoint
+  router.post('/api/explain', async (ctx) => {
+    const input = BrowserslistQuerySchema.parse(ctx.request.body);
+    const result = explainBrowserslistQuery(input);
+    ctx.body = result;
+  });
+
+  // Diff queries endpoint
+  router.post('/api/diff', async (ctx) => {
+    const input = BrowserslistDiffSchema.parse(ctx.request.body);
+    const result = diffBrowserslistQueries(input);
+    ctx.body = result;
+  });
+
   // Get defaults endpoint
   router.get('/api/defaults', (ctx) => {
     const defaults = getBrowserslistDefaults();
@@ -48,14 +93,106 @@ export function createKoaApp() {
 
   // Get coverage endpoint
   router.post('/api/coverage', async (ctx) => {
-    const { browsers } = ctx.request.body as { browsers: string[] };
+    const { browsers, region, stats, dataSnapshot } = ctx.request.body as {
+      browsers: string[];
+      region?: string;
+      stats?: unknown;
+      dataSnapshot?: unknown;
+    };
     if (!Array.isArray(browsers)) {
       ctx.throw(400, 'browsers must be an array');
     }
-    const coverage = getBrowserslistCoverage(browsers);
+    if (region !== undefined && typeof region !== 'string') {
+      ctx.throw(400, 'region must be a string');
+    }
+    const coverage = getBrowserslistCoverage(browsers, {
+      region,
+      stats: stats === undefined ? undefined : UsageStatsSchema.parse(stats),
+      dataSnapshot: dataSnapshot === undefined ? undefined : DataSnapshotReferenceSchema.parse(dataSnapshot),
+    });
     ctx.body = coverage;
   });
 
+  // Coverage matrix endpoint
+  router.post('/api/coverage/matrix', async (ctx) => {
+    const input = CoverageMatrixSchema.parse(ctx.request.body);
+    const matrix = getCoverageMatrix(input);
+    ctx.body = matrix;
+  });
+
+  // Feature support endpoint
+  router.post('/api/features/check', async (ctx) => {
+    const input = FeatureSupportSchema.parse(ctx.request.body);
+    const result = checkFeatureSupport(input);
+    ctx.body = result;
+  });
+
+  // Build-tool targets endpoint
+  router.post('/api/targets', async (ctx) => {
+    const input = BrowserslistQuerySchema.parse(ctx.request.body);
+    const result = exportBuildTargets(input);
+    ctx.body = result;
+  });
+
+  // Config resolution endpoint
+  router.post('/api/config/resolve', async (ctx) => {
+    const input = ConfigResolveSchema.parse(ctx.request.body);
+    const result = resolveBrowserslistConfig(input);
+    ctx.body = result;
+  });
+
+  // Config linter endpoint
+  router.post('/api/lint', async (ctx) => {
+    const input = LintConfigSchema.parse(ctx.request.body);
+    const result = lintBrowserslistConfig(input);
+    ctx.body = result;
+  });
+
+  // Node.js query endpoint
+  router.post('/api/node', async (ctx) => {
+    const input = BrowserslistQuerySchema.parse(ctx.request.body);
+    const result = queryNodeVersions(input);
+    ctx.body = result;
+  });
+
+  // Electron mapping endpoint
+  router.post('/api/electron', async (ctx) => {
+    const input = ElectronMappingSchema.parse(ctx.request.body);
+    const result = mapElectronVersions(input);
+    ctx.body = result;
+  });
+
+  // User-Agent matching endpoint, checking the request's own User-Agent when the body has none
+  router.post('/api/match-ua', async (ctx) => {
+    const input = UserAgentMatchSchema.parse({
+      userAgent: ctx.get('User-Agent').slice(0, MAX_USER_AGENT_LENGTH) || undefined,
+      ...ctx.request.body as object
+    });
+    const result = matchUserAgent(input);
+    ctx.body = result;
+  });
+
+  // User-Agent regex endpoint
+  router.post('/api/ua-regex', async (ctx) => {
+    const input = UserAgentRegexSchema.parse(ctx.request.body);
+    const result = generateUserAgentRegex(input);
+    ctx.body = result;
+  });
+
+  // Differential build planning endpoint
+  router.post('/api/differential', async (ctx) => {
+    const input = DifferentialBuildSchema.parse(ctx.request.body);
+    const result = planDifferentialBuild(input);
+    ctx.body = result;
+  });
+
+  // Data freshness endpoint
+  router.get('/api/data-info', (ctx) => {
+    const { maxAgeDays } = ctx.query;
+    const input = DataInfoSchema.parse({ maxAgeDays: maxAgeDays === undefined ? undefined : Number(maxAgeDays) });
+    ctx.body = getDataInfo(input.maxAgeDays);
+  });
+
   // Documentation endpoint
   router.get('/api/documentation', (ctx) => {
     ctx.type = 'text/markdown';
@@ -77,6 +214,7 @@ export function createKoaApp() {
  * Start the Koa server
  */
 export function startKoaServer(port = 3000) {
+  configureBrowserslistFromProcessEnv();
   const app = createKoaApp();
   
   app.listen(port, () => {
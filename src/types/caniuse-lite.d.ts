@@ -0,0 +1,6 @@
+declare module 'caniuse-lite/data/regions/*' {
+  import type { PackedRegion } from 'caniuse-lite';
+
+  const packed: PackedRegion;
+  export default packed;
+}
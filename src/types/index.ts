@@ -1,18 +1,309 @@
 import { z } from 'zod';
 
+/**
+ * Schema for a captured copy of the browser data browserslist resolves queries against
+ */
+export const DataSnapshotSchema = z.object({
+  capturedAt: z.string().describe('When the snapshot was captured (ISO 8601)'),
+  browserslist: z.string().describe('Version of browserslist the snapshot was captured with'),
+  caniuseLite: z.string().describe('Version of caniuse-lite the snapshot was captured from'),
+  dataDate: z.string().describe('Release date of the newest browser version in the snapshot'),
+  agents: z.record(z.object({
+    versions: z.array(z.string()),
+    released: z.array(z.string()),
+    releaseDate: z.record(z.number().nullable()),
+    usage: z.record(z.number())
+  })).describe('Versions, release dates and global usage by browser'),
+  nodeVersions: z.array(z.string()).describe('Released Node.js versions')
+});
+
+export type DataSnapshot = z.infer<typeof DataSnapshotSchema>;
+
+/**
+ * Schema for selecting a data snapshot: the name of a loaded snapshot or the snapshot itself
+ */
+export const DataSnapshotReferenceSchema = z.union([
+  z.string().describe('Name of a snapshot loaded from the snapshot directory (e.g., "2025-03-14")'),
+  DataSnapshotSchema
+]);
+
+export type DataSnapshotReference = z.infer<typeof DataSnapshotReferenceSchema>;
+
+/**
+ * Schema for browserslist options shared by query tools
+ */
+export const BrowserslistOptionsSchema = z.object({
+  env: z.string().optional().describe('Environment configuration (e.g., "production", "development")'),
+  path: z.string().optional().describe('Directory in the server config directory to look up a browserslist config from when the query is empty'),
+  config: z.string().optional().describe('Path to a browserslist config file to resolve when the query is empty'),
+  mobileToDesktop: z.boolean().optional()
+    .describe('Use desktop browser data for mobile versions Can I Use does not know (e.g., "and_chr 100", "android 90")'),
+  ignoreUnknownVersions: z.boolean().optional().describe('Skip unknown versions instead of throwing "Unknown version" errors'),
+  throwOnMissing: z.boolean().optional().describe('Throw when the config has no section for env instead of using its defaults'),
+  dataSnapshot: DataSnapshotReferenceSchema.optional()
+    .describe('Evaluate against a captured data snapshot instead of the bundled data')
+});
+
+export type BrowserslistOptions = z.infer<typeof BrowserslistOptionsSchema>;
+
+/**
+ * Schema for the shape of a query result
+ */
+export const QueryResultFormatSchema = z.enum(['flat', 'grouped', 'engines'])
+  .describe(
+    '"flat" (default) lists matching browsers; "grouped" also groups them by browser family with version ranges, engine, release dates, usage and dead flags; ' +
+    '"engines" also groups them by rendering and JavaScript engine with the minimum engine version'
+  );
+
+export type QueryResultFormat = z.infer<typeof QueryResultFormatSchema>;
+
 /**
  * Schema for browserslist query tool input
  */
 export const BrowserslistQuerySchema = z.object({
   query: z.string().describe('Browserslist query string (e.g., "last 2 versions", "> 1%", "chrome > 90")'),
-  options: z.object({
-    env: z.string().optional().describe('Environment configuration (e.g., "production", "development")'),
-    path: z.string().optional().describe('Path to the directory containing browserslist config')
-  }).optional()
+  options: BrowserslistOptionsSchema.optional(),
+  format: QueryResultFormatSchema.optional()
 });
 
 export type BrowserslistQueryInput = z.infer<typeof BrowserslistQuerySchema>;
 
+/**
+ * Schema for browserslist query diff input
+ */
+export const BrowserslistDiffSchema = z.object({
+  from: BrowserslistQuerySchema.describe('Current query to compare from'),
+  to: BrowserslistQuerySchema.describe('Proposed query to compare to')
+});
+
+export type BrowserslistDiffInput = z.infer<typeof BrowserslistDiffSchema>;
+
+/**
+ * Schema for differential (module/nomodule) build planning input
+ */
+export const DifferentialBuildSchema = z.object({
+  modern: z.string().describe('Query of the browsers the modern (module) bundle targets (e.g., "defaults and last 2 years")'),
+  legacy: z.string().describe('Query of the browsers the legacy (nomodule) bundle targets (e.g., "defaults and not last 2 years")'),
+  options: BrowserslistOptionsSchema.optional(),
+  region: z.string().optional().describe('Country or region code to measure audience share in (e.g., "US", "alt-EU")')
+});
+
+export type DifferentialBuildInput = z.infer<typeof DifferentialBuildSchema>;
+
+/**
+ * Schema for coverage matrix input
+ */
+export const CoverageMatrixSchema = z.object({
+  queries: z.array(z.string()).min(1).describe('Browserslist queries to compare (e.g., ["defaults", "last 2 versions"])'),
+  regions: z.union([z.array(z.string()).min(1), z.literal('continents')])
+    .describe('Region codes (e.g., ["US", "JP", "alt-EU"]) or "continents" for every inhabited continent'),
+  options: BrowserslistOptionsSchema.optional()
+});
+
+export type CoverageMatrixInput = z.infer<typeof CoverageMatrixSchema>;
+
+/**
+ * Schema for feature support check input
+ */
+export const FeatureSupportSchema = z.object({
+  query: z.string().optional().describe('Browserslist query to resolve targets from (e.g., "defaults")'),
+  browsers: z.array(z.string()).optional().describe('Explicit browser versions (e.g., ["chrome 90", "safari 14.1"])'),
+  features: z.array(z.string()).min(1).describe('Can I Use feature ids (e.g., ["css-container-queries", "es6-module"])'),
+  region: z.string().optional().describe('Country code or continent to compute the audience share for (e.g., "JP", "alt-AS")'),
+  options: BrowserslistOptionsSchema.optional()
+}).refine((input) => (input.query === undefined) !== (input.browsers === undefined), {
+  message: 'Specify either query or browsers'
+});
+
+export type FeatureSupportInput = z.infer<typeof FeatureSupportSchema>;
+
+/**
+ * Schema for in-memory browserslist config resolution input
+ */
+export const ConfigResolveSchema = z.object({
+  content: z.string().describe('Raw text of a .browserslistrc file, a package.json file or its "browserslist" field'),
+  format: z.enum(['browserslistrc', 'package.json']).optional()
+    .describe('Format of the content (detected automatically when omitted)')
+});
+
+export type ConfigResolveInput = z.infer<typeof ConfigResolveSchema>;
+
+/**
+ * Schema for a lockfile-style record of the browsers and coverage each environment of a config resolved to
+ */
+export const TargetSnapshotSchema = z.object({
+  lockfileVersion: z.literal(1),
+  capturedAt: z.string().describe('When the snapshot was taken (ISO 8601)'),
+  browserslist: z.string().describe('Version of browserslist the queries were resolved with'),
+  caniuseLite: z.string().describe('Version of caniuse-lite the queries were resolved against'),
+  dataDate: z.string().describe('Release date of the newest browser version in the data'),
+  envs: z.record(z.object({
+    query: z.string(),
+    browsers: z.array(z.string()),
+    coverage: z.number()
+  })).describe('Query, resolved browsers and global coverage by environment')
+});
+
+export type TargetSnapshot = z.infer<typeof TargetSnapshotSchema>;
+
+/**
+ * Schema for target drift check input
+ */
+export const TargetDriftSchema = z.object({
+  snapshot: TargetSnapshotSchema.describe('Target snapshot to compare the current resolution to')
+});
+
+export type TargetDriftInput = z.infer<typeof TargetDriftSchema>;
+
+/**
+ * Schema for browserslist config linter input
+ */
+export const LintConfigSchema = z.object({
+  query: z.string().optional().describe('Browserslist query to lint (e.g., "last 2 versions")'),
+  content: z.string().optional().describe('Raw text of a .browserslistrc file, a package.json file or its "browserslist" field'),
+  format: z.enum(['browserslistrc', 'package.json']).optional()
+    .describe('Format of the content (detected automatically when omitted)'),
+  options: BrowserslistOptionsSchema.optional(),
+  regions: z.array(z.string()).optional().describe('Country codes or continents to check for coverage gaps (e.g., ["JP", "US"])'),
+  threshold: z.number().min(0).max(100).optional().describe('Minimum acceptable coverage percentage (default: 80)')
+}).refine((input) => (input.query === undefined) !== (input.content === undefined), {
+  message: 'Specify either query or content'
+});
+
+export type LintConfigInput = z.infer<typeof LintConfigSchema>;
+
+/**
+ * Schema for coverage-driven query synthesis input
+ */
+export const SuggestQuerySchema = z.object({
+  coverage: z.number().min(0).max(100).describe('Target coverage percentage (e.g., 95)'),
+  region: z.string().optional().describe('Country code or continent the coverage applies to (e.g., "JP", "alt-AS")'),
+  mustInclude: z.array(z.string()).optional().describe('Browsers or queries that must stay targeted (e.g., ["safari >= 15"])'),
+  mustExclude: z.array(z.string()).optional().describe('Browsers or queries that must not be targeted (e.g., ["ie 11", "op_mini all"])'),
+  excludeDead: z.boolean().optional().describe('Exclude dead browsers (default: true)'),
+  limit: z.number().int().positive().optional().describe('Maximum number of candidates (default: 5)')
+});
+
+export type SuggestQueryInput = z.infer<typeof SuggestQuerySchema>;
+
+/**
+ * Schema for query minimizer input
+ */
+export const OptimizeQuerySchema = z.object({
+  query: z.string().describe('Browserslist query to shorten (e.g., "> 0.5%, last 2 versions, Firefox ESR, not dead, not ie 11")'),
+  options: BrowserslistOptionsSchema.optional(),
+  tolerance: z.number().min(0).max(100).optional()
+    .describe('Global usage percentage the shorter query may differ by (default: 0, exact match only)')
+});
+
+export type OptimizeQueryInput = z.infer<typeof OptimizeQuerySchema>;
+
+/**
+ * Schema for data freshness report input
+ */
+export const DataInfoSchema = z.object({
+  maxAgeDays: z.number().int().positive().optional()
+    .describe('Age in days after which the browser data is reported as stale (default: 180)')
+});
+
+export type DataInfoInput = z.infer<typeof DataInfoSchema>;
+
+/**
+ * Schema for Electron to Chromium mapping input
+ */
+export const ElectronMappingSchema = z.object({
+  electron: z.string().optional().describe('Electron version or range (e.g., "25", ">= 25", "25 - 27")'),
+  chrome: z.string().optional().describe('Chromium version or range to find Electron versions for (e.g., "114", ">= 120")'),
+  query: z.string().optional().describe('Browserslist query to resolve, typically with electron clauses (e.g., "electron >= 25, not dead")'),
+  region: z.string().optional().describe('Country code or continent to compute coverage for (e.g., "JP", "alt-AS")'),
+  options: BrowserslistOptionsSchema.optional()
+}).refine((input) => [input.electron, input.chrome, input.query].filter((value) => value !== undefined).length === 1, {
+  message: 'Specify exactly one of electron, chrome or query'
+});
+
+export type ElectronMappingInput = z.infer<typeof ElectronMappingSchema>;
+
+/**
+ * Longest User-Agent accepted for matching; real ones stay well below it
+ */
+export const MAX_USER_AGENT_LENGTH = 1024;
+
+/**
+ * Schema for User-Agent matching input
+ */
+export const UserAgentMatchSchema = z.object({
+  userAgent: z.string().min(1).max(MAX_USER_AGENT_LENGTH).describe('User-Agent header of the client to check'),
+  query: z.string().describe('Browserslist query of the supported browsers (e.g., "defaults")'),
+  options: BrowserslistOptionsSchema.optional(),
+  allowHigherVersions: z.boolean().optional()
+    .describe('Also accept versions newer than the oldest targeted version of the family, including versions newer than the bundled data')
+});
+
+export type UserAgentMatchInput = z.infer<typeof UserAgentMatchSchema>;
+
+/**
+ * Schema for User-Agent regex generation input
+ */
+export const UserAgentRegexSchema = z.object({
+  query: z.string().describe('Browserslist query of the supported browsers (e.g., "defaults")'),
+  options: BrowserslistOptionsSchema.optional(),
+  allowHigherVersions: z.boolean().optional()
+    .describe('Also match versions newer than the oldest targeted version of each browser, including versions newer than the bundled data'),
+  ignorePatch: z.boolean().optional()
+    .describe('Match every patch release of a targeted version, e.g., 17.2.1 for Safari 17.2 (default: true)')
+});
+
+export type UserAgentRegexInput = z.infer<typeof UserAgentRegexSchema>;
+
+/**
+ * Schema for custom usage statistics keyed by browser and version (e.g., { chrome: { "120": 12.5 } })
+ */
+export const UsageStatsSchema = z.record(z.string(), z.record(z.string(), z.number()));
+
+export type UsageStats = z.infer<typeof UsageStatsSchema>;
+
+/**
+ * Audience to compute coverage for: a region code or inline usage statistics
+ */
+export interface CoverageAudience {
+  region?: string;
+  stats?: UsageStats;
+  dataSnapshot?: DataSnapshotReference;
+}
+
+/**
+ * Which data snapshot a result was computed against
+ */
+export interface DataSnapshotSummary {
+  name?: string;
+  capturedAt: string;
+  dataDate: string;
+}
+
+/**
+ * Coverage of a browser list for an audience
+ */
+export interface BrowserslistCoverage {
+  coverage: number;
+  countryCode?: string;
+  customStats?: boolean;
+  dataSnapshot?: DataSnapshotSummary;
+  [key: string]: unknown;
+}
+
+/**
+ * Options a query was actually resolved with, including server-controlled ones
+ */
+export interface EffectiveBrowserslistOptions {
+  env?: string;
+  path?: string;
+  config?: string;
+  mobileToDesktop: boolean;
+  ignoreUnknownVersions: boolean;
+  throwOnMissing: boolean;
+  dangerousExtend: boolean;
+}
+
 /**
  * Schema for browserslist query result
  */
@@ -20,5 +311,551 @@ export interface BrowserslistResult {
   browsers: string[];
   query: string;
   count: number;
+  options?: EffectiveBrowserslistOptions;
+  dataSnapshot?: DataSnapshotSummary;
+  families?: BrowserFamilyGroup[];
+  engines?: EngineSummary[];
+  [key: string]: unknown;
+}
+
+/**
+ * A browser version of a grouped query result
+ */
+export interface BrowserVersionDetail {
+  version: string;
+  engine: string;
+  releaseDate: string | null;
+  usage: number;
+  dead: boolean;
+}
+
+/**
+ * Kind of region a region code names
+ */
+export type RegionType = 'country' | 'continent' | 'world';
+
+/**
+ * Usage share of a browser version within a region
+ */
+export interface RegionBrowserUsage {
+  browser: string;
+  name: string;
+  usage: number;
+}
+
+/**
+ * A region browserslist accepts in "> 1% in XX" and coverage queries, with its most used browser versions
+ */
+export interface RegionInfo {
+  code: string;
+  name: string;
+  type: RegionType;
+  topBrowsers: RegionBrowserUsage[];
+  [key: string]: unknown;
+}
+
+/**
+ * Rendering engine, JavaScript engine and engine version of a resolved browser.
+ * Blink versions are Chromium versions, Gecko versions Firefox versions and WebKit versions Safari versions.
+ */
+export interface BrowserEngineMapping {
+  browser: string;
+  engine: string;
+  jsEngine: string;
+  engineVersion: string | null;
+}
+
+/**
+ * Resolved browsers sharing an engine, with the oldest and newest engine versions among them
+ */
+export interface EngineSummary {
+  engine: string;
+  jsEngine: string;
+  minVersion: string | null;
+  maxVersion: string | null;
+  count: number;
+  browsers: Pick<BrowserEngineMapping, 'browser' | 'engineVersion'>[];
+}
+
+/**
+ * Browser detected from a User-Agent string. browser is the matching browserslist entry (e.g., "chrome 120"),
+ * or null when the bundled data does not know the version yet.
+ */
+export interface DetectedBrowser {
+  family: string;
+  name: string;
+  version: string;
+  browser: string | null;
+}
+
+/**
+ * Whether the browser of a User-Agent string is targeted by a query, with the nearest target when it is not
+ */
+export interface UserAgentMatch {
+  userAgent: string;
+  query: string;
+  matched: boolean;
+  detected: DetectedBrowser | null;
+  nearest: string | null;
+  [key: string]: unknown;
+}
+
+/**
+ * Regex pattern of the targeted versions of one browser family
+ */
+export interface UserAgentRegexFamily {
+  family: string;
+  name: string;
+  versions: string[];
+  pattern: string;
+}
+
+/**
+ * Sample User-Agent the generated regex was tested with. expected is whether User-Agent matching targets it.
+ */
+export interface UserAgentRegexSample {
+  browser: string;
+  userAgent: string;
+  expected: boolean;
+  matched: boolean;
+}
+
+/**
+ * Regular expression matching the User-Agents of the browsers a query targets. skipped lists browsers that no
+ * User-Agent can identify, such as Node.js versions.
+ */
+export interface UserAgentRegex {
+  query: string;
+  regex: string;
+  families: UserAgentRegexFamily[];
+  skipped: string[];
+  selfTest: {
+    passed: boolean;
+    samples: UserAgentRegexSample[];
+  };
+  [key: string]: unknown;
+}
+
+/**
+ * A browser family of the browser catalog
+ */
+export interface BrowserCatalogEntry {
+  family: string;
+  name: string;
+  engine: string;
+  aliases: string[];
+  oldest: string;
+  newest: string;
+  count: number;
+}
+
+/**
+ * A browser family with every known version, newest first
+ */
+export interface BrowserInfo extends BrowserCatalogEntry {
+  versions: BrowserVersionDetail[];
+  [key: string]: unknown;
+}
+
+/**
+ * Browser versions of a query result within one browser family.
+ * engine is the engine of the newest version; versions lists each version's own.
+ */
+export interface BrowserFamilyGroup {
+  family: string;
+  name: string;
+  engine: string;
+  ranges: string[];
+  count: number;
+  usage: number;
+  versions: BrowserVersionDetail[];
+}
+
+/**
+ * A single clause of a browserslist query and its effect on the running result
+ */
+export interface QueryClauseStep {
+  index: number;
+  clause: string;
+  type: string;
+  compose: 'or' | 'and';
+  not: boolean;
+  matched: string[];
+  added: string[];
+  removed: string[];
+  result: string[];
+  count: number;
+}
+
+/**
+ * Browserslist query result with a per-clause trace
+ */
+export interface BrowserslistExplanation extends BrowserslistResult {
+  steps: QueryClauseStep[];
+}
+
+/**
+ * Browser versions added, removed and shared by a query diff within one browser family
+ */
+export interface BrowserFamilyDiff {
+  family: string;
+  added: string[];
+  removed: string[];
+  shared: string[];
+}
+
+/**
+ * Result of comparing two browserslist queries
+ */
+export interface BrowserslistDiff {
+  from: BrowserslistResult;
+  to: BrowserslistResult;
+  added: string[];
+  removed: string[];
+  shared: string[];
+  families: BrowserFamilyDiff[];
+  coverage: {
+    from: number;
+    to: number;
+    delta: number;
+  };
+  [key: string]: unknown;
+}
+
+/**
+ * Browsers one bundle of a differential build targets, with their audience share
+ */
+export interface DifferentialBucket {
+  query: string;
+  browsers: string[];
+  count: number;
+  coverage: number;
+}
+
+/**
+ * Module/nomodule build plan: both buckets, their overlap and gaps, `<script type="module">` support and the
+ * audience share neither bucket targets
+ */
+export interface DifferentialBuildPlan {
+  modern: DifferentialBucket;
+  legacy: DifferentialBucket;
+  overlap: string[];
+  gaps: string[];
+  moduleSupport: {
+    supported: boolean;
+    unsupported: string[];
+    legacyWithModules: string[];
+  };
+  fallthrough: number;
+  countryCode?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Coverage of one query in every requested region
+ */
+export interface CoverageMatrixRow {
+  query: string;
+  count: number;
+  coverage: Record<string, number>;
+}
+
+/**
+ * Coverage percentages per query per region
+ */
+export interface CoverageMatrix {
+  regions: string[];
+  rows: CoverageMatrixRow[];
+  [key: string]: unknown;
+}
+
+/**
+ * Support level of a Can I Use feature in one browser version
+ */
+export type FeatureSupportLevel = 'supported' | 'partial' | 'prefixed' | 'unsupported' | 'unknown';
+
+/**
+ * Support of one Can I Use feature across resolved browsers
+ */
+export interface FeatureSupportReport {
+  id: string;
+  title: string;
+  browsers: { browser: string; support: FeatureSupportLevel }[];
+  summary: Record<FeatureSupportLevel, number>;
+  lacking: string[];
+  lackingShare: number;
+}
+
+/**
+ * Result of checking Can I Use features against resolved browsers
+ */
+export interface FeatureSupportResult {
+  query?: string;
+  browsers: string[];
+  count: number;
+  countryCode?: string;
+  features: FeatureSupportReport[];
+  [key: string]: unknown;
+}
+
+/**
+ * Catalog entry for a Can I Use feature
+ */
+export interface FeatureCatalogEntry {
+  id: string;
+  title: string;
+  status: string;
+}
+
+/**
+ * Feature catalog entries matching a search
+ */
+export interface FeatureSearchResult {
+  query: string;
+  results: (FeatureCatalogEntry & { score: number })[];
+  [key: string]: unknown;
+}
+
+/**
+ * Build tools a browserslist query can be exported to
+ */
+export type TargetFormat = 'esbuild' | 'babel' | 'swc' | 'lightningcss' | 'vite';
+
+/**
+ * Build-tool targets derived from a query's resolved browsers
+ */
+export interface BuildTargets extends BrowserslistResult {
+  esbuild: string[];
+  babel: Record<string, string>;
+  swc: Record<string, string>;
+  lightningcss: Record<string, number>;
+  vite: string[];
+  unmapped: Record<TargetFormat, string[]>;
+}
+
+/**
+ * Browserslist config sections keyed by environment name
+ */
+export type BrowserslistConfigSections = Record<string, string[]>;
+
+/**
+ * Query and resolved browsers of one config environment
+ */
+export interface ResolvedConfigEnv extends BrowserslistResult {
+  env: string;
+}
+
+/**
+ * Result of resolving every environment of an in-memory browserslist config
+ */
+export interface ResolvedConfig {
+  format: 'browserslistrc' | 'package.json';
+  envs: ResolvedConfigEnv[];
+  [key: string]: unknown;
+}
+
+/**
+ * Browsers an environment gained and lost since a target snapshot
+ */
+export interface EnvTargetDrift {
+  env: string;
+  query: string;
+  added: string[];
+  removed: string[];
+  coverage: {
+    snapshot: number;
+    current: number;
+    delta: number;
+  };
+}
+
+/**
+ * Drift between a target snapshot and the current resolution of its queries
+ */
+export interface TargetDrift {
+  drifted: boolean;
+  snapshot: { capturedAt: string; caniuseLite: string; dataDate: string };
+  current: { caniuseLite: string; dataDate: string };
+  envs: EnvTargetDrift[];
+  [key: string]: unknown;
+}
+
+/**
+ * Stable ids of browserslist config lint rules
+ */
+export type LintRuleId =
+  | 'missing-not-dead'
+  | 'targets-ie'
+  | 'targets-opera-mini'
+  | 'regional-only-coverage'
+  | 'redundant-clause'
+  | 'last-versions-obsolete'
+  | 'country-coverage-gap';
+
+/**
+ * A problem found by the browserslist config linter
+ */
+export interface LintFinding {
+  ruleId: LintRuleId;
+  severity: 'warning' | 'info';
+  message: string;
+  env?: string;
+  query: string;
+  clause?: string;
+  suggestion?: string;
+}
+
+/**
+ * Result of linting a browserslist query or config
+ */
+export interface LintResult {
+  findings: LintFinding[];
+  summary: {
+    warnings: number;
+    info: number;
+  };
+  [key: string]: unknown;
+}
+
+/**
+ * A candidate query proposed for coverage goals
+ */
+export interface QueryCandidate {
+  query: string;
+  count: number;
+  coverage: number;
+  meetsTarget: boolean;
+}
+
+/**
+ * Candidate queries ranked against coverage goals
+ */
+export interface QuerySuggestions {
+  targetCoverage: number;
+  countryCode?: string;
+  candidates: QueryCandidate[];
   [key: string]: unknown;
 }
+
+/**
+ * A query proposed by the minimizer and how far it is from the original
+ */
+export interface OptimizedQueryCandidate {
+  query: string;
+  clauses: number;
+  count: number;
+  exact: boolean;
+  missing: string[];
+  extra: string[];
+  difference: number;
+}
+
+/**
+ * Result of shortening a browserslist query
+ */
+export interface OptimizedQuery {
+  original: {
+    query: string;
+    clauses: number;
+    count: number;
+  };
+  optimized: OptimizedQueryCandidate;
+  redundantClauses: string[];
+  tolerance: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Versions of the bundled browser data and its freshness
+ */
+export interface DataInfo {
+  browserslist: string;
+  caniuseLite: {
+    version: string;
+    dataDate: string;
+    ageDays: number;
+  };
+  electronToChromium: string;
+  maxAgeDays: number;
+  stale: boolean;
+  warning?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Phase of a Node.js release line in the release schedule
+ */
+export type NodeReleaseStatus = 'pending' | 'current' | 'active-lts' | 'maintenance' | 'end-of-life' | 'unknown';
+
+/**
+ * A Node.js version with its release line metadata
+ */
+export interface NodeVersionInfo {
+  version: string;
+  releaseLine: string;
+  releaseDate?: string;
+  lts: boolean;
+  codename?: string;
+  status: NodeReleaseStatus;
+  ltsStart?: string;
+  maintenanceStart?: string;
+  endOfLife?: string;
+  supported: boolean;
+}
+
+/**
+ * Result of a node query with release line metadata for each Node.js version
+ */
+export interface NodeQueryResult extends BrowserslistResult {
+  versions: NodeVersionInfo[];
+}
+
+/**
+ * Electron versions built on a Chromium version
+ */
+export interface ElectronChromiumMapping {
+  chrome: string;
+  electron: string[];
+}
+
+/**
+ * Chrome versions resolved from Electron versions, Chromium versions or a query, with their Electron counterparts
+ */
+export interface ElectronMapping extends BrowserslistResult {
+  coverage: number;
+  countryCode?: string;
+  mappings: ElectronChromiumMapping[];
+}
+
+/**
+ * Kind of problem that made a query fail
+ */
+export type QueryErrorCode =
+  | 'unknown-browser'
+  | 'unknown-version'
+  | 'unknown-region'
+  | 'syntax-error'
+  | 'missing-config'
+  | 'query-error';
+
+/**
+ * Structured description of a failed query, with corrected queries to retry with
+ */
+export interface QueryDiagnostic {
+  code: QueryErrorCode;
+  message: string;
+  clause?: string;
+  span?: {
+    start: number;
+    end: number;
+  };
+  suggestions: string[];
+}
+
+/**
+ * Error body returned by the REST APIs and embedded in tool errors
+ */
+export interface QueryErrorEnvelope {
+  error: string;
+  diagnostic?: QueryDiagnostic;
+}
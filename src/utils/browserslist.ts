@@ -1,26 +1,198 @@
+import { isAbsolute, relative, resolve } from 'node:path';
 import browserslist from 'browserslist';
-import { BrowserslistResult, BrowserslistQueryInput } from '../types/index.js';
+import {
+  BrowserslistResult,
+  BrowserslistOptions,
+  BrowserslistQueryInput,
+  EffectiveBrowserslistOptions,
+  BrowserslistExplanation,
+  QueryClauseStep,
+  BrowserslistDiffInput,
+  BrowserslistDiff,
+  BrowserFamilyDiff,
+  BrowserslistCoverage,
+  CoverageAudience,
+  CoverageMatrix,
+  CoverageMatrixInput,
+  UsageStats
+} from '../types/index.js';
+import { BrowserslistQueryError, diagnoseQueryError } from './diagnostics.js';
+import { summarizeEngines } from './engines.js';
+import { groupBrowsersByFamily } from './families.js';
+import { withDataSnapshot } from './snapshot.js';
+import { getRegionUsage } from './usage.js';
 
 /**
- * Execute browserslist query and return formatted results
+ * Browserslist settings the server operator controls and clients cannot set per query
  */
-export function executeBrowserslistQuery(input: BrowserslistQueryInput): BrowserslistResult {
+const serverSettings = {
+  dangerousExtend: false,
+  // Directory the config option may point into; config files are refused when unset
+  configDir: undefined as string | undefined
+};
+
+/**
+ * Configure server-controlled browserslist settings
+ */
+export function configureBrowserslist(settings: Partial<typeof serverSettings>): void {
+  Object.assign(serverSettings, settings);
+}
+
+/**
+ * Parse a boolean environment variable strictly: only "true" and "1" enable it
+ */
+export function parseEnvFlag(value: string | undefined): boolean {
+  return value === 'true' || value === '1';
+}
+
+/**
+ * Configure server-controlled browserslist settings from environment variables or Worker bindings
+ */
+export function configureBrowserslistFromEnv(env: { BROWSERSLIST_DANGEROUS_EXTEND?: string; BROWSERSLIST_CONFIG_DIR?: string }): void {
+  configureBrowserslist({
+    dangerousExtend: parseEnvFlag(env.BROWSERSLIST_DANGEROUS_EXTEND),
+    configDir: env.BROWSERSLIST_CONFIG_DIR || undefined
+  });
+}
+
+/**
+ * Configure server-controlled browserslist settings from the environment of a Node.js process
+ */
+export function configureBrowserslistFromProcessEnv(): void {
+  configureBrowserslistFromEnv(process.env);
+  // The Node.js build of browserslist allows dangerous extends whenever the variable is set, even to "false"
+  if (!parseEnvFlag(process.env.BROWSERSLIST_DANGEROUS_EXTEND)) {
+    delete process.env.BROWSERSLIST_DANGEROUS_EXTEND;
+  }
+}
+
+/**
+ * Resolve a client-supplied config file or directory, which must stay inside the server's config directory
+ */
+function resolveConfigPath(option: 'config' | 'path', value: string): string {
+  const { configDir } = serverSettings;
+  if (configDir === undefined) {
+    throw new Error(`The ${option} option is disabled on this server (set BROWSERSLIST_CONFIG_DIR to allow config files)`);
+  }
+
+  const file = resolve(configDir, value);
+  const fromDir = relative(resolve(configDir), file);
+  // Unlike a config file, path may name the config directory itself
+  if ((fromDir === '' && option === 'config') || fromDir.startsWith('..') || isAbsolute(fromDir)) {
+    throw new Error(`${option === 'config' ? 'Config file' : 'Path'} \`${value}\` is outside the config directory`);
+  }
+  return file;
+}
+
+/**
+ * Combine query options with server-controlled settings into the options browserslist runs with
+ */
+export function getEffectiveOptions(options: BrowserslistOptions = {}): EffectiveBrowserslistOptions {
+  return {
+    ...(options.env !== undefined && { env: options.env }),
+    ...(options.path !== undefined && { path: resolveConfigPath('path', options.path) }),
+    ...(options.config !== undefined && { config: resolveConfigPath('config', options.config) }),
+    mobileToDesktop: options.mobileToDesktop ?? false,
+    ignoreUnknownVersions: options.ignoreUnknownVersions ?? false,
+    throwOnMissing: options.throwOnMissing ?? false,
+    dangerousExtend: serverSettings.dangerousExtend
+  };
+}
+
+/**
+ * Execute browserslist query and return formatted results. customStats is the usage `in my stats` clauses select
+ * from (e.g., a region's usage), which data snapshots provide themselves.
+ */
+export function executeBrowserslistQuery(input: BrowserslistQueryInput, customStats?: UsageStats): BrowserslistResult {
   try {
-    const browsers = browserslist(input.query, {
-      env: input.options?.env,
-      path: input.options?.path
+    const options = getEffectiveOptions(input.options);
+    if (customStats && input.options?.dataSnapshot) {
+      throw new Error('Custom usage statistics are not available for data snapshots');
+    }
+
+    return withDataSnapshot(input.options?.dataSnapshot, (stats = customStats, dataSnapshot) => {
+      // An empty query resolves the config found through config or path, like browserslist without queries, but
+      // never a config the server process happens to find from its working directory
+      const empty = input.query.trim() === '';
+      const browsers = empty && options.config === undefined && options.path === undefined
+        ? []
+        : browserslist(empty ? undefined : input.query, { ...options, stats });
+
+      return {
+        browsers,
+        query: input.query,
+        count: browsers.length,
+        options,
+        ...(dataSnapshot && { dataSnapshot }),
+        ...(input.format === 'grouped' && { families: groupBrowsersByFamily(browsers, stats) }),
+        ...(input.format === 'engines' && { engines: summarizeEngines(browsers) })
+      };
     });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new BrowserslistQueryError(`Failed to execute browserslist query: ${message}`, diagnoseQueryError(message, input.query));
+  }
+}
+
+/**
+ * Execute browserslist query clause by clause and trace how each clause changes the result
+ */
+export function explainBrowserslistQuery(input: BrowserslistQueryInput): BrowserslistExplanation {
+  try {
+    const options = getEffectiveOptions(input.options);
+
+    return withDataSnapshot(input.options?.dataSnapshot, (stats, dataSnapshot) => {
+      const opts = { ...options, stats };
+      const nodes = browserslist.parse(input.query, opts);
+      const steps: QueryClauseStep[] = [];
+      let previous: string[] = [];
+
+      nodes.forEach((node, index) => {
+        const not = node.not === true;
+
+        // Evaluate the prefix with browserslist itself so the running result keeps its ordering
+        const result = browserslist(joinQueryClauses(nodes.slice(0, index + 1)), opts);
+        const matched = browserslist(not ? node.query.replace(/^not\s+/i, '') : node.query, opts);
 
-    return {
-      browsers,
-      query: input.query,
-      count: browsers.length
-    };
+        steps.push({
+          index,
+          clause: node.query,
+          type: node.type,
+          compose: node.compose,
+          not,
+          matched,
+          added: result.filter((browser) => !previous.includes(browser)),
+          removed: previous.filter((browser) => !result.includes(browser)),
+          result,
+          count: result.length
+        });
+        previous = result;
+      });
+
+      return {
+        browsers: previous,
+        query: input.query,
+        count: previous.length,
+        options,
+        ...(dataSnapshot && { dataSnapshot }),
+        steps
+      };
+    });
   } catch (error) {
-    throw new Error(`Failed to execute browserslist query: ${error instanceof Error ? error.message : String(error)}`);
+    const message = error instanceof Error ? error.message : String(error);
+    throw new BrowserslistQueryError(`Failed to explain browserslist query: ${message}`, diagnoseQueryError(message, input.query));
   }
 }
 
+/**
+ * Join parsed query clauses back into a query string
+ */
+export function joinQueryClauses(nodes: browserslist.Query[]): string {
+  return nodes
+    .map((node, index) => index === 0 ? node.query : `${node.compose === 'and' ? ' and ' : ', '}${node.query}`)
+    .join('');
+}
+
 /**
  * Get browserslist configuration defaults
  */
@@ -29,13 +201,134 @@ export function getBrowserslistDefaults(): string {
 }
 
 /**
- * Get browserslist coverage statistics
+ * Get browserslist coverage statistics for global usage, a region (e.g., "US", "alt-AS") or custom usage statistics
  */
-export function getBrowserslistCoverage(browsers: string[]): { coverage: number; countryCode?: string } {
+export function getBrowserslistCoverage(browsers: string[], audience: CoverageAudience = {}): BrowserslistCoverage {
   try {
-    const coverage = browserslist.coverage(browsers);
-    return { coverage };
+    if (audience.region && audience.stats) {
+      throw new Error('Specify either a region or custom stats, not both');
+    }
+
+    if (audience.region && audience.dataSnapshot) {
+      throw new Error('Regional coverage is not available for data snapshots');
+    }
+
+    return withDataSnapshot(audience.dataSnapshot, (_, dataSnapshot) => {
+      const snapshot = dataSnapshot && { dataSnapshot };
+
+      if (audience.stats) {
+        return { coverage: browserslist.coverage(browsers, audience.stats), customStats: true, ...snapshot };
+      }
+
+      if (audience.region) {
+        const countryCode = normalizeRegion(audience.region);
+        return { coverage: browserslist.coverage(browsers, getRegionUsage(countryCode)), countryCode };
+      }
+
+      const coverage = browserslist.coverage(browsers);
+      return { coverage, ...snapshot };
+    });
   } catch (error) {
-    throw new Error(`Failed to get coverage: ${error instanceof Error ? error.message : String(error)}`);
+    const message = error instanceof Error ? error.message : String(error);
+    throw new BrowserslistQueryError(`Failed to get coverage: ${message}`, diagnoseQueryError(message));
   }
 }
+
+/**
+ * Normalize a region code the way browserslist does: country codes are upper case, continents lower case
+ */
+export function normalizeRegion(region: string): string {
+  const code = region.trim();
+  return code.length > 2 ? code.toLowerCase() : code.toUpperCase();
+}
+
+/**
+ * Compare two browserslist queries and group the differences by browser family
+ */
+export function diffBrowserslistQueries(input: BrowserslistDiffInput): BrowserslistDiff {
+  const from = executeBrowserslistQuery(input.from);
+  const to = executeBrowserslistQuery(input.to);
+
+  const added = to.browsers.filter((browser) => !from.browsers.includes(browser));
+  const removed = from.browsers.filter((browser) => !to.browsers.includes(browser));
+  const shared = to.browsers.filter((browser) => from.browsers.includes(browser));
+
+  const families = new Map<string, BrowserFamilyDiff>();
+  const collect = (browsers: string[], key: 'added' | 'removed' | 'shared') => {
+    for (const browser of browsers) {
+      const [family, version] = browser.split(' ');
+      if (!families.has(family)) {
+        families.set(family, { family, added: [], removed: [], shared: [] });
+      }
+      families.get(family)![key].push(version);
+    }
+  };
+  collect(added, 'added');
+  collect(removed, 'removed');
+  collect(shared, 'shared');
+
+  const fromCoverage = getBrowserslistCoverage(from.browsers, { dataSnapshot: input.from.options?.dataSnapshot }).coverage;
+  const toCoverage = getBrowserslistCoverage(to.browsers, { dataSnapshot: input.to.options?.dataSnapshot }).coverage;
+
+  return {
+    from,
+    to,
+    added,
+    removed,
+    shared,
+    families: [...families.values()].sort((a, b) => a.family.localeCompare(b.family)),
+    coverage: {
+      from: roundPercentage(fromCoverage),
+      to: roundPercentage(toCoverage),
+      delta: roundPercentage(toCoverage - fromCoverage)
+    }
+  };
+}
+
+/**
+ * Codes of the inhabited continents the "continents" preset expands to; `alt-an` is still accepted as a region
+ */
+export const CONTINENT_REGIONS = ['alt-af', 'alt-as', 'alt-eu', 'alt-na', 'alt-oc', 'alt-sa'];
+
+/**
+ * Compute coverage of several queries across several regions
+ */
+export function getCoverageMatrix(input: CoverageMatrixInput): CoverageMatrix {
+  // Queries would resolve against the snapshot while regional usage always comes from the bundled data
+  if (input.options?.dataSnapshot) {
+    throw new Error('Regional coverage is not available for data snapshots');
+  }
+
+  const regions = input.regions === 'continents' ? CONTINENT_REGIONS : input.regions.map(normalizeRegion);
+
+  const rows = input.queries.map((query) => {
+    const { browsers, count } = executeBrowserslistQuery({ query, options: input.options });
+    const coverage: Record<string, number> = {};
+    for (const region of regions) {
+      coverage[region] = roundPercentage(getBrowserslistCoverage(browsers, { region }).coverage);
+    }
+    return { query, count, coverage };
+  });
+
+  return { regions, rows };
+}
+
+/**
+ * Format a coverage matrix as a Markdown table with one row per query and one column per region
+ */
+export function formatCoverageMatrix(matrix: CoverageMatrix): string {
+  const header = `| Query | Browsers | ${matrix.regions.join(' | ')} |`;
+  const separator = `| --- | ---: | ${matrix.regions.map(() => '---:').join(' | ')} |`;
+  const rows = matrix.rows.map((row) => {
+    const cells = matrix.regions.map((region) => `${row.coverage[region].toFixed(2)}%`);
+    return `| \`${row.query.replace(/\|/g, '\\|')}\` | ${row.count} | ${cells.join(' | ')} |`;
+  });
+  return [header, separator, ...rows].join('\n');
+}
+
+/**
+ * Round a usage percentage to two decimals to hide floating point noise
+ */
+export function roundPercentage(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,171 @@
+import { feature as unpackFeature, features as packedFeatures } from 'caniuse-lite';
+import type { Feature } from 'caniuse-lite';
+import {
+  FeatureCatalogEntry,
+  FeatureSearchResult,
+  FeatureSupportInput,
+  FeatureSupportLevel,
+  FeatureSupportReport,
+  FeatureSupportResult
+} from '../types/index.js';
+import { executeBrowserslistQuery, getBrowserslistCoverage, normalizeRegion, roundPercentage } from './browserslist.js';
+
+const featureCache = new Map<string, Feature>();
+
+/**
+ * Unpack Can I Use data for a feature id
+ */
+export function getCaniuseFeature(id: string): Feature {
+  const cached = featureCache.get(id);
+  if (cached) {
+    return cached;
+  }
+
+  const packed = packedFeatures[id];
+  if (!packed) {
+    throw new Error(`Unknown Can I Use feature \`${id}\``);
+  }
+
+  const unpacked = unpackFeature(packed);
+  featureCache.set(id, unpacked);
+  return unpacked;
+}
+
+/**
+ * Classify a Can I Use support flag string (e.g., "y", "a x #2", "n d") for one browser version
+ */
+export function getFeatureSupportLevel(data: Feature, browser: string): FeatureSupportLevel {
+  const [name, version] = browser.split(' ');
+  const flags = data.stats[name]?.[version];
+  if (!flags) {
+    return 'unknown';
+  }
+
+  const tokens = flags.split(' ');
+  if (tokens.includes('x') && (tokens.includes('y') || tokens.includes('a'))) {
+    return 'prefixed';
+  }
+  if (tokens.includes('y')) {
+    return 'supported';
+  }
+  if (tokens.includes('a')) {
+    return 'partial';
+  }
+  if (tokens.includes('u')) {
+    return 'unknown';
+  }
+  return 'unsupported';
+}
+
+/**
+ * Check Can I Use features against the browsers resolved from a query or an explicit browser list
+ */
+export function checkFeatureSupport(input: FeatureSupportInput): FeatureSupportResult {
+  if ((input.query === undefined) === (input.browsers === undefined)) {
+    throw new Error('Specify either query or browsers');
+  }
+
+  const browsers = input.query !== undefined
+    ? executeBrowserslistQuery({ query: input.query, options: input.options }).browsers
+    : input.browsers!;
+
+  const features = input.features.map((id): FeatureSupportReport => {
+    const data = getCaniuseFeature(id);
+    const summary: Record<FeatureSupportLevel, number> = {
+      supported: 0,
+      partial: 0,
+      prefixed: 0,
+      unsupported: 0,
+      unknown: 0
+    };
+
+    const results = browsers.map((browser) => {
+      const support = getFeatureSupportLevel(data, browser);
+      summary[support] += 1;
+      return { browser, support };
+    });
+
+    const lacking = results.filter((result) => result.support !== 'supported').map((result) => result.browser);
+    const { coverage } = getBrowserslistCoverage(lacking, { region: input.region, dataSnapshot: input.options?.dataSnapshot });
+
+    return {
+      id,
+      title: data.title,
+      browsers: results,
+      summary,
+      lacking,
+      lackingShare: roundPercentage(coverage)
+    };
+  });
+
+  return {
+    ...(input.query !== undefined && { query: input.query }),
+    browsers,
+    count: browsers.length,
+    ...(input.region !== undefined && { countryCode: normalizeRegion(input.region) }),
+    features
+  };
+}
+
+/**
+ * List every Can I Use feature id with its title and specification status
+ */
+export function listCaniuseFeatures(): FeatureCatalogEntry[] {
+  return Object.keys(packedFeatures).sort().map((id) => {
+    const { title, status } = getCaniuseFeature(id);
+    return { id, title, status };
+  });
+}
+
+/**
+ * Split text into lower-case words, dropping punctuation such as ":has()" -> ["has"]
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Words that carry no meaning when searching features (e.g., "can we use ...?")
+ */
+const SEARCH_STOP_WORDS = new Set([
+  'a', 'an', 'the', 'can', 'i', 'we', 'use', 'using', 'is', 'are',
+  'does', 'do', 'in', 'of', 'for', 'with', 'support', 'supported'
+]);
+
+/**
+ * Fuzzy-match feature ids and titles, so "can we use :has()?" finds `css-has`
+ */
+export function searchCaniuseFeatures(query: string, limit = 10): FeatureSearchResult {
+  const terms = tokenize(query).filter((term) => !SEARCH_STOP_WORDS.has(term));
+  const phrase = terms.join(' ');
+
+  const results = listCaniuseFeatures()
+    .map((entry) => {
+      const idWords = tokenize(entry.id);
+      const titleWords = tokenize(entry.title);
+      let score = 0;
+
+      if (phrase && idWords.join(' ') === phrase) {
+        score += 10;
+      }
+      if (phrase && titleWords.join(' ').includes(phrase)) {
+        score += 3;
+      }
+      for (const term of terms) {
+        if (idWords.includes(term)) {
+          score += 3;
+        } else if (titleWords.includes(term)) {
+          score += 2;
+        } else if ([...idWords, ...titleWords].some((word) => word.startsWith(term))) {
+          score += 1;
+        }
+      }
+
+      return { ...entry, score };
+    })
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+    .slice(0, limit);
+
+  return { query, results };
+}
@@ -0,0 +1,123 @@
+import {
+  BrowserslistConfigSections,
+  ConfigResolveInput,
+  ResolvedConfig,
+  ResolvedConfigEnv
+} from '../types/index.js';
+import { executeBrowserslistQuery } from './browserslist.js';
+
+const IS_SECTION = /^\s*\[(.+)]\s*$/;
+
+/**
+ * Parse .browserslistrc text into sections, following browserslist's own config parser.
+ * Implemented here because the client-side build of browserslist (used by the Worker) cannot parse configs.
+ */
+export function parseBrowserslistrc(content: string): BrowserslistConfigSections {
+  const result: BrowserslistConfigSections = { defaults: [] };
+  let sections = ['defaults'];
+
+  content
+    .replace(/#[^\n]*/g, '')
+    .split(/\n|,/)
+    .map((line) => line.trim())
+    .filter((line) => line !== '')
+    .forEach((line) => {
+      const section = line.match(IS_SECTION);
+      if (section) {
+        sections = section[1].trim().split(/\s+/);
+        for (const name of sections) {
+          if (result[name]) {
+            throw new Error(`Duplicate section ${name} in Browserslist config`);
+          }
+          result[name] = [];
+        }
+      } else {
+        for (const name of sections) {
+          result[name].push(line);
+        }
+      }
+    });
+
+  return result;
+}
+
+/**
+ * Parse a package.json file, or just its "browserslist" field, into sections
+ */
+export function parsePackageBrowserslist(content: string): BrowserslistConfigSections {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new Error(`Invalid package.json: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // A whole package.json is recognised by its "browserslist" field or its usual top-level keys
+  const isPackage = parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed) &&
+    ['browserslist', 'name', 'version', 'dependencies'].some((key) => key in parsed);
+  const field = isPackage ? (parsed as Record<string, unknown>).browserslist : parsed;
+
+  if (field === undefined) {
+    throw new Error('package.json has no "browserslist" field');
+  }
+  if (typeof field === 'string' || Array.isArray(field)) {
+    return { defaults: toQueryList(field, 'defaults') };
+  }
+  if (field === null || typeof field !== 'object') {
+    throw new Error('"browserslist" field must be a string, an array or an object of environments');
+  }
+
+  const result: BrowserslistConfigSections = {};
+  for (const [env, queries] of Object.entries(field)) {
+    result[env] = toQueryList(queries, env);
+  }
+  return result;
+}
+
+/**
+ * Validate one package.json environment value
+ */
+function toQueryList(value: unknown, env: string): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value) && value.every((query) => typeof query === 'string')) {
+    return value;
+  }
+  throw new Error(`Browserslist config for "${env}" should be a string or an array of strings`);
+}
+
+/**
+ * Detect whether config text is JSON (package.json) or .browserslistrc.
+ * A leading "[" is ambiguous (JSON array or section header), so parse to tell them apart.
+ */
+function detectFormat(content: string): ResolvedConfig['format'] {
+  try {
+    JSON.parse(content.replace(/^\uFEFF/, ''));
+    return 'package.json';
+  } catch {
+    return 'browserslistrc';
+  }
+}
+
+/**
+ * Resolve every environment of an in-memory browserslist config without file system access
+ */
+export function resolveBrowserslistConfig(input: ConfigResolveInput): ResolvedConfig {
+  const format = input.format ?? detectFormat(input.content);
+  const sections = format === 'package.json'
+    ? parsePackageBrowserslist(input.content)
+    : parseBrowserslistrc(input.content);
+
+  const names = Object.keys(sections).filter((env) => sections[env].length > 0);
+  if (names.length === 0) {
+    throw new Error('No browserslist queries found in config');
+  }
+
+  const envs = names.map((env): ResolvedConfigEnv => ({
+    env,
+    ...executeBrowserslistQuery({ query: sections[env].join(', ') })
+  }));
+
+  return { format, envs };
+}
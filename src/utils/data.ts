@@ -0,0 +1,53 @@
+import { agents } from 'caniuse-lite';
+import browserslistPackage from 'browserslist/package.json' with { type: 'json' };
+import caniusePackage from 'caniuse-lite/package.json' with { type: 'json' };
+import electronToChromiumPackage from 'electron-to-chromium/package.json' with { type: 'json' };
+import { DataInfo } from '../types/index.js';
+
+/**
+ * Data age after which a warning is reported, matching browserslist's own "data is old" warning
+ */
+export const DEFAULT_MAX_DATA_AGE_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Release date of the newest browser version in the caniuse-lite data
+ */
+function getCaniuseDataDate(): Date {
+  let latest = 0;
+  for (const agent of Object.values(agents)) {
+    for (const released of Object.values(agent?.release_date ?? {})) {
+      if (released && released > latest) {
+        latest = released;
+      }
+    }
+  }
+  return new Date(latest * 1000);
+}
+
+/**
+ * Report the bundled data versions and whether the caniuse-lite data is older than maxAgeDays
+ */
+export function getDataInfo(maxAgeDays: number = DEFAULT_MAX_DATA_AGE_DAYS, now: Date = new Date()): DataInfo {
+  const dataDate = getCaniuseDataDate().toISOString().slice(0, 10);
+  const ageDays = Math.max(0, Math.floor((now.getTime() - Date.parse(dataDate)) / DAY_MS));
+  const stale = ageDays > maxAgeDays;
+
+  return {
+    browserslist: browserslistPackage.version,
+    caniuseLite: {
+      version: caniusePackage.version,
+      dataDate,
+      ageDays,
+    },
+    electronToChromium: electronToChromiumPackage.version,
+    maxAgeDays,
+    stale,
+    ...(stale && {
+      warning:
+        `Browser data is ${ageDays} days old (limit ${maxAgeDays}). ` +
+        'Update caniuse-lite and redeploy, for example with `npx update-browserslist-db@latest`.',
+    }),
+  };
+}
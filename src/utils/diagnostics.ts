@@ -0,0 +1,266 @@
+import browserslist from 'browserslist';
+import { QueryDiagnostic, QueryErrorCode, QueryErrorEnvelope } from '../types/index.js';
+import { REGION_CODES } from './regions.js';
+
+/**
+ * Error thrown for a failed query, carrying a structured diagnostic
+ */
+export class BrowserslistQueryError extends Error {
+  readonly diagnostic: QueryDiagnostic;
+
+  constructor(message: string, diagnostic: QueryDiagnostic) {
+    super(message);
+    this.name = 'BrowserslistQueryError';
+    this.diagnostic = diagnostic;
+  }
+}
+
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Region names people use that are not caniuse-lite region codes
+ */
+const REGION_ALIASES: Record<string, string> = {
+  UK: 'GB',
+  EU: 'alt-eu',
+  WW: 'alt-ww'
+};
+
+/**
+ * Words of the query grammar, used to correct typos in clauses browserslist cannot parse
+ */
+const QUERY_KEYWORDS = [
+  'last', 'version', 'versions', 'major', 'not', 'dead', 'defaults', 'cover', 'in', 'my', 'stats', 'node',
+  'maintained', 'current', 'unreleased', 'year', 'years', 'since', 'supports', 'fully', 'partially', 'extends',
+  'esr', 'all', 'and', 'or', 'baseline', 'widely', 'newly', 'available', 'with', 'downstream', 'browsers'
+];
+
+/**
+ * Edit distance between two strings
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Candidates closest to a misspelled word, within an edit distance that grows with its length
+ */
+function closest(word: string, candidates: string[]): string[] {
+  const target = word.toLowerCase();
+  const limit = Math.max(2, Math.floor(target.length / 3));
+  return candidates
+    .map((candidate) => ({ candidate, distance: levenshtein(target, candidate.toLowerCase()) }))
+    .filter(({ distance }) => distance <= limit)
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Whether a query resolves without errors
+ */
+function resolves(query: string): boolean {
+  try {
+    browserslist(query);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Locate the clause of a query containing a token, with its character span
+ */
+function locateClause(query: string, token?: string): Pick<QueryDiagnostic, 'clause' | 'span'> {
+  let clauses: string[];
+  try {
+    clauses = browserslist.parse(query).map((node) => node.query);
+  } catch {
+    clauses = query.split(/,|\s+or\s+|\s+and\s+/i).map((clause) => clause.trim()).filter(Boolean);
+  }
+
+  let offset = 0;
+  const located = clauses.map((clause) => {
+    const start = query.indexOf(clause, offset);
+    offset = start + clause.length;
+    return { clause, span: { start, end: start + clause.length } };
+  });
+
+  const needle = token?.toLowerCase();
+  const match = needle === undefined
+    ? undefined
+    : located.find(({ clause }) => clause.toLowerCase() === needle) ??
+      located.find(({ clause }) => new RegExp(`(^|[\\s>=<])${escapeRegExp(needle)}($|[\\s.])`, 'i').test(clause));
+  return match ?? {};
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replace a token in the located clause and return the whole corrected query
+ */
+function replaceInClause(query: string, located: Pick<QueryDiagnostic, 'clause' | 'span'>, token: string, replacement: string) {
+  if (!located.clause || !located.span) {
+    return undefined;
+  }
+  const clause = located.clause.replace(new RegExp(escapeRegExp(token), 'i'), replacement);
+  return query.slice(0, located.span.start) + clause + query.slice(located.span.end);
+}
+
+/**
+ * Canonical browser names and aliases browserslist accepts
+ */
+function browserNames(): string[] {
+  return [...Object.keys(browserslist.data), ...Object.keys(browserslist.aliases), 'node', 'electron'];
+}
+
+/**
+ * Released versions of a browser closest to a requested one
+ */
+function closestVersions(name: string, version: string): string[] {
+  const key = name.toLowerCase();
+  const canonical = browserslist.aliases[key] ?? key;
+  const versions = canonical === 'node.js' || canonical === 'node'
+    ? [...new Set(browserslist.nodeVersions.map((v) => v.split('.')[0]))]
+    : browserslist.data[canonical]?.released ?? [];
+  const requested = parseFloat(version);
+
+  return [...versions]
+    .sort((a, b) => Math.abs(parseFloat(a) - requested) - Math.abs(parseFloat(b) - requested) || parseFloat(b) - parseFloat(a))
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Region codes closest to an unknown one, starting with common mix-ups such as "UK" for "GB"
+ */
+function closestRegions(region: string): string[] {
+  if (REGION_CODES.some((code) => code.toLowerCase() === region.toLowerCase())) {
+    return [region];
+  }
+  const alias = REGION_ALIASES[region.toUpperCase()];
+  return [...(alias ? [alias] : []), ...closest(region, REGION_CODES)];
+}
+
+/**
+ * Correct misspelled grammar words and browser names of a clause browserslist cannot parse
+ */
+function correctClause(clause: string): string | undefined {
+  const vocabulary = [...QUERY_KEYWORDS, ...browserNames()];
+  const parts = clause.split(/(\s+)/);
+  const words = parts.map((word, index) => {
+    if (parts[index - 2]?.toLowerCase() === 'in') {
+      return closestRegions(word)[0] ?? word;
+    }
+    if (/^\s+$/.test(word) || /[\d%<>=.]/.test(word) || vocabulary.includes(word.toLowerCase())) {
+      return word;
+    }
+    return closest(word, vocabulary)[0] ?? word;
+  });
+  const corrected = words.join('');
+  return corrected !== clause ? corrected : undefined;
+}
+
+/**
+ * Build a diagnostic for a browserslist error message, with suggestions for the whole query
+ */
+export function diagnoseQueryError(message: string, query = ''): QueryDiagnostic {
+  const diagnostic = (code: QueryErrorCode, token?: string, suggestions: (string | undefined)[] = []): QueryDiagnostic => ({
+    code,
+    message,
+    ...locateClause(query, token),
+    suggestions: [...new Set(suggestions.filter((s): s is string => s !== undefined))].slice(0, MAX_SUGGESTIONS)
+  });
+
+  let match = message.match(/^Unknown browser (\S+)$/);
+  if (match) {
+    const name = match[1];
+    const located = locateClause(query, name);
+    return diagnostic('unknown-browser', name, closest(name, browserNames())
+      .map((candidate) => replaceInClause(query, located, name, candidate)));
+  }
+
+  match = message.match(/^Unknown version (\S+) of (.+)$/);
+  if (match) {
+    const [, version, name] = match;
+    const located = locateClause(query, version);
+    return diagnostic('unknown-version', version, closestVersions(name, version)
+      .map((candidate) => replaceInClause(query, located, version, candidate)));
+  }
+
+  match = message.match(/^Unknown region name `([^`]+)`/);
+  if (match) {
+    const region = match[1];
+    const located = locateClause(query, region);
+    return diagnostic('unknown-region', region, closestRegions(region)
+      .map((candidate) => replaceInClause(query, located, region, candidate) ?? candidate));
+  }
+
+  match = message.match(/^Unknown browser query `([^`]+)`/);
+  if (match) {
+    const clause = match[1];
+    const located = locateClause(query, clause);
+    const corrected = correctClause(clause);
+    const suggestion = corrected && replaceInClause(query, located, clause, corrected);
+    return diagnostic('syntax-error', clause, [suggestion].filter((s) => s !== undefined && resolves(s)));
+  }
+
+  match = message.match(/^Specify versions in Browserslist query for browser (\S+)$/);
+  if (match) {
+    const name = match[1];
+    const located = locateClause(query, name);
+    return diagnostic('syntax-error', name, [
+      replaceInClause(query, located, name, `last 2 ${name} versions`),
+      replaceInClause(query, located, name, `last 1 ${name} version`)
+    ]);
+  }
+
+  match = message.match(/before `([^`]+)`/);
+  if (match) {
+    return diagnostic('syntax-error', match[1], [`defaults, ${query}`]);
+  }
+
+  if (/config|Can't read|Cannot find module/i.test(message)) {
+    return diagnostic('missing-config');
+  }
+
+  return diagnostic('query-error');
+}
+
+/**
+ * Structured diagnostic of an error, if it came from a failed query
+ */
+export function getQueryDiagnostic(error: unknown): QueryDiagnostic | undefined {
+  return error instanceof BrowserslistQueryError ? error.diagnostic : undefined;
+}
+
+/**
+ * Error body shared by the REST APIs and tool errors
+ */
+export function toErrorEnvelope(message: string, error?: unknown): QueryErrorEnvelope {
+  const diagnostic = getQueryDiagnostic(error);
+  return { error: message, ...(diagnostic && { diagnostic }) };
+}
+
+/**
+ * Text of a tool error: the message, followed by the error envelope when a diagnostic is available
+ */
+export function formatToolError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const envelope = toErrorEnvelope(message, error);
+  return envelope.diagnostic
+    ? `Error: ${message}\n\n${JSON.stringify(envelope, null, 2)}`
+    : `Error: ${message}`;
+}
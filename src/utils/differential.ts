@@ -0,0 +1,79 @@
+import browserslist from 'browserslist';
+import { DifferentialBucket, DifferentialBuildInput, DifferentialBuildPlan } from '../types/index.js';
+import { executeBrowserslistQuery, getBrowserslistCoverage, normalizeRegion, roundPercentage } from './browserslist.js';
+import { getCaniuseFeature, getFeatureSupportLevel } from './caniuse.js';
+import { withDataSnapshot } from './snapshot.js';
+
+/**
+ * Can I Use feature for `<script type="module">`, which decides the bundle a browser loads
+ */
+const MODULE_FEATURE = 'es6-module';
+
+/**
+ * Positions of a family's targeted versions among its released versions
+ */
+function releasePositions(family: string, released: string[], browsers: string[]): number[] {
+  return released
+    .map((version, position) => (browsers.includes(`${family} ${version}`) ? position : -1))
+    .filter((position) => position !== -1);
+}
+
+/**
+ * Released versions between the newest legacy and the oldest modern version of a family that neither bucket targets
+ */
+function findGaps(modern: string[], legacy: string[]): string[] {
+  const families = new Set(modern.map((browser) => browser.split(' ')[0]));
+  const gaps: string[] = [];
+
+  for (const family of families) {
+    const released = browserslist.data[family]?.released ?? [];
+    const legacyPositions = releasePositions(family, released, legacy);
+    const modernPositions = releasePositions(family, released, modern);
+    if (legacyPositions.length === 0 || modernPositions.length === 0) {
+      continue;
+    }
+
+    const between = released.slice(Math.max(...legacyPositions) + 1, Math.min(...modernPositions));
+    gaps.push(...between.map((version) => `${family} ${version}`));
+  }
+
+  return gaps;
+}
+
+/**
+ * Plan a module/nomodule build: the browsers each query targets, how the two buckets overlap or leave gaps, the
+ * audience share of each and of neither, and whether `<script type="module">` sends browsers to the right bundle
+ */
+export function planDifferentialBuild(input: DifferentialBuildInput): DifferentialBuildPlan {
+  const modern = executeBrowserslistQuery({ query: input.modern, options: input.options });
+  const legacy = executeBrowserslistQuery({ query: input.legacy, options: input.options });
+  const audience = { region: input.region, dataSnapshot: input.options?.dataSnapshot };
+  const coverage = (browsers: string[]) => getBrowserslistCoverage(browsers, audience).coverage;
+
+  const bucket = ({ query, browsers }: typeof modern): DifferentialBucket => ({
+    query,
+    browsers,
+    count: browsers.length,
+    coverage: roundPercentage(coverage(browsers))
+  });
+
+  const union = [...new Set([...modern.browsers, ...legacy.browsers])];
+  const modules = getCaniuseFeature(MODULE_FEATURE);
+  const supportsModules = (browser: string) => getFeatureSupportLevel(modules, browser) === 'supported';
+  const unsupported = modern.browsers.filter((browser) => !supportsModules(browser));
+
+  return {
+    modern: bucket(modern),
+    legacy: bucket(legacy),
+    overlap: modern.browsers.filter((browser) => legacy.browsers.includes(browser)),
+    gaps: withDataSnapshot(input.options?.dataSnapshot, () => findGaps(modern.browsers, legacy.browsers)),
+    moduleSupport: {
+      supported: unsupported.length === 0,
+      unsupported,
+      // These browsers run module scripts and skip nomodule ones, so they load the modern bundle despite being legacy
+      legacyWithModules: legacy.browsers.filter((browser) => !modern.browsers.includes(browser) && supportsModules(browser))
+    },
+    fallthrough: roundPercentage(Math.max(0, 100 - coverage(union))),
+    ...(input.region !== undefined && { countryCode: normalizeRegion(input.region) })
+  };
+}
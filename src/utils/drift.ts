@@ -0,0 +1,111 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import {
+  ConfigResolveInput,
+  EnvTargetDrift,
+  TargetDrift,
+  TargetDriftInput,
+  TargetSnapshot,
+  TargetSnapshotSchema
+} from '../types/index.js';
+import { executeBrowserslistQuery, getBrowserslistCoverage, roundPercentage } from './browserslist.js';
+import { resolveBrowserslistConfig } from './config.js';
+import { getDataInfo } from './data.js';
+
+/**
+ * Record the browsers and global coverage every environment of a config resolves to with the bundled data
+ */
+export function captureTargetSnapshot(input: ConfigResolveInput, now: Date = new Date()): TargetSnapshot {
+  const info = getDataInfo();
+  const { envs } = resolveBrowserslistConfig(input);
+
+  return {
+    lockfileVersion: 1,
+    capturedAt: now.toISOString(),
+    browserslist: info.browserslist,
+    caniuseLite: info.caniuseLite.version,
+    dataDate: info.caniuseLite.dataDate,
+    envs: Object.fromEntries(envs.map(({ env, query, browsers }) => [
+      env,
+      { query, browsers, coverage: roundPercentage(getBrowserslistCoverage(browsers).coverage) }
+    ]))
+  };
+}
+
+/**
+ * Resolve the queries of a target snapshot again and report the browsers each environment gained and lost
+ */
+export function checkTargetDrift(input: TargetDriftInput): TargetDrift {
+  const { snapshot } = input;
+  const info = getDataInfo();
+
+  const envs = Object.entries(snapshot.envs).map(([env, recorded]): EnvTargetDrift => {
+    const { browsers } = executeBrowserslistQuery({ query: recorded.query });
+    const coverage = roundPercentage(getBrowserslistCoverage(browsers).coverage);
+
+    return {
+      env,
+      query: recorded.query,
+      added: browsers.filter((browser) => !recorded.browsers.includes(browser)),
+      removed: recorded.browsers.filter((browser) => !browsers.includes(browser)),
+      coverage: {
+        snapshot: recorded.coverage,
+        current: coverage,
+        delta: roundPercentage(coverage - recorded.coverage)
+      }
+    };
+  });
+
+  return {
+    drifted: envs.some((env) => env.added.length > 0 || env.removed.length > 0),
+    snapshot: { capturedAt: snapshot.capturedAt, caniuseLite: snapshot.caniuseLite, dataDate: snapshot.dataDate },
+    current: { caniuseLite: info.caniuseLite.version, dataDate: info.caniuseLite.dataDate },
+    envs
+  };
+}
+
+/**
+ * Format a drift report as a readable diff of the environments whose browsers changed
+ */
+export function formatTargetDrift(drift: TargetDrift): string {
+  const data = `caniuse-lite ${drift.snapshot.caniuseLite} -> ${drift.current.caniuseLite}`;
+  if (!drift.drifted) {
+    return `No browser targets drifted since ${drift.snapshot.capturedAt} (${data})`;
+  }
+
+  const sections = drift.envs
+    .filter((env) => env.added.length > 0 || env.removed.length > 0)
+    .map((env) => {
+      const sign = env.coverage.delta > 0 ? '+' : '';
+      return [
+        `[${env.env}] ${env.query}`,
+        ...env.added.map((browser) => `+ ${browser}`),
+        ...env.removed.map((browser) => `- ${browser}`),
+        `coverage ${env.coverage.snapshot}% -> ${env.coverage.current}% (${sign}${env.coverage.delta})`
+      ].join('\n');
+    });
+
+  return [`Browser targets drifted since ${drift.snapshot.capturedAt} (${data})`, ...sections].join('\n\n');
+}
+
+/**
+ * Record the targets of a .browserslistrc or package.json file to a lockfile-style JSON file
+ */
+export async function saveTargetSnapshot(configFile: string, file: string): Promise<TargetSnapshot> {
+  const snapshot = captureTargetSnapshot({ content: await readFile(configFile, 'utf8') });
+  await writeFile(file, `${JSON.stringify(snapshot, null, 2)}\n`);
+  return snapshot;
+}
+
+/**
+ * Check a target snapshot file for drift
+ */
+export async function checkTargetDriftFile(file: string): Promise<TargetDrift> {
+  const content = await readFile(file, 'utf8');
+  let snapshot: TargetSnapshot;
+  try {
+    snapshot = TargetSnapshotSchema.parse(JSON.parse(content));
+  } catch (error) {
+    throw new Error(`Invalid target snapshot ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return checkTargetDrift({ snapshot });
+}
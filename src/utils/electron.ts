@@ -0,0 +1,84 @@
+import electronVersions from 'electron-to-chromium/versions.json' with { type: 'json' };
+import { ElectronChromiumMapping, ElectronMapping, ElectronMappingInput } from '../types/index.js';
+import { executeBrowserslistQuery, getBrowserslistCoverage, roundPercentage } from './browserslist.js';
+
+const electronToChromium = electronVersions as Record<string, string>;
+
+/**
+ * Electron "major.minor" versions by the Chromium major version they are built on
+ */
+const chromiumToElectron = Object.entries(electronToChromium).reduce((map, [electron, chrome]) => {
+  map.set(chrome, [...(map.get(chrome) ?? []), electron]);
+  return map;
+}, new Map<string, string[]>());
+
+/**
+ * Expand a bare Electron major version to the first or last of its minor versions,
+ * since browserslist only knows "major.minor" Electron versions
+ */
+function expandElectronMajor(version: string, last: boolean): string {
+  if (version.includes('.')) {
+    return version;
+  }
+  const minors = Object.keys(electronToChromium).filter((electron) => electron.split('.')[0] === version);
+  return minors.length === 0 ? version : minors[last ? minors.length - 1 : 0];
+}
+
+/**
+ * Turn an Electron version or range into the browserslist clause for it
+ */
+function toElectronClause(electron: string): string {
+  const value = electron.trim().replace(/^electron\s*/i, '');
+  const range = value.match(/^([\d.]+)\s*-\s*([\d.]+)$/);
+  if (range) {
+    return `electron ${expandElectronMajor(range[1], false)} - ${expandElectronMajor(range[2], true)}`;
+  }
+  if (/^[\d.]+$/.test(value)) {
+    return `electron ${expandElectronMajor(value, false)}`;
+  }
+  return `electron ${value}`;
+}
+
+/**
+ * Turn a Chromium version or range into the browserslist clause for it
+ */
+function toChromeClause(chrome: string): string {
+  return `chrome ${chrome.trim().replace(/^(chrome|chromium)\s*/i, '')}`;
+}
+
+/**
+ * Map Electron versions to the Chrome versions they are built on, or Chromium versions back to Electron,
+ * resolving the result as a browserslist query with its coverage
+ */
+export function mapElectronVersions(input: ElectronMappingInput): ElectronMapping {
+  const given = [input.electron, input.chrome, input.query].filter((value) => value !== undefined);
+  if (given.length !== 1) {
+    throw new Error('Specify exactly one of electron, chrome or query');
+  }
+
+  const query = input.electron !== undefined
+    ? toElectronClause(input.electron)
+    : input.chrome !== undefined
+      ? toChromeClause(input.chrome)
+      : input.query!;
+
+  const result = executeBrowserslistQuery({ query, options: input.options });
+  const { coverage, countryCode } = getBrowserslistCoverage(result.browsers, {
+    region: input.region,
+    dataSnapshot: input.options?.dataSnapshot
+  });
+
+  const mappings = result.browsers
+    .filter((browser) => browser.startsWith('chrome '))
+    .map((browser): ElectronChromiumMapping => {
+      const chrome = browser.slice('chrome '.length);
+      return { chrome, electron: chromiumToElectron.get(chrome.split('.')[0]) ?? [] };
+    });
+
+  return {
+    ...result,
+    coverage: roundPercentage(coverage),
+    ...(countryCode && { countryCode }),
+    mappings
+  };
+}
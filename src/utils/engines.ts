@@ -0,0 +1,138 @@
+import { getAllVersions } from 'baseline-browser-mapping';
+import releases from 'node-releases/data/processed/envs.json' with { type: 'json' };
+import { BrowserEngineMapping, EngineSummary } from '../types/index.js';
+import { compareVersions, getBrowserEngine } from './families.js';
+
+/**
+ * JavaScript engine paired with each rendering engine
+ */
+const JS_ENGINES: Record<string, string> = {
+  Blink: 'V8',
+  Gecko: 'SpiderMonkey',
+  WebKit: 'JavaScriptCore',
+  Trident: 'Chakra',
+  EdgeHTML: 'Chakra',
+  Presto: 'Carakan',
+  V8: 'V8'
+};
+
+/**
+ * Families whose version is the version of their engine: Chromium for Blink, Firefox for Gecko and
+ * Safari for WebKit, since WebKit has no public version numbers of its own
+ */
+const ENGINE_VERSIONED_FAMILIES = ['chrome', 'and_chr', 'edge', 'firefox', 'and_ff', 'safari', 'ios_saf'];
+
+/**
+ * baseline-browser-mapping names of browsers built on another browser's engine (e.g., Samsung Internet on Chromium)
+ */
+const DOWNSTREAM_BROWSERS: Record<string, string> = {
+  opera: 'opera',
+  op_mob: 'opera_android',
+  samsung: 'samsunginternet_android',
+  and_qq: 'qq_android',
+  and_uc: 'uc_android',
+  android: 'webview_android',
+  kaios: 'kai_os'
+};
+
+/**
+ * Trident versions of Internet Explorer, which does not share its version numbers with its engine
+ */
+const TRIDENT_VERSIONS: Record<string, string> = {
+  '8': '4.0',
+  '9': '5.0',
+  '10': '6.0',
+  '11': '7.0'
+};
+
+// The array output format returns browser versions; the declared return type also covers the object and CSV formats
+const downstreamVersions = getAllVersions({ includeDownstreamBrowsers: true, includeKaiOS: true, outputFormat: 'array' }) as Array<{
+  browser: string;
+  version: string;
+  engine_version?: string;
+}>;
+
+const downstreamEngineVersions = new Map(
+  downstreamVersions
+    .filter((version) => version.engine_version)
+    .map((version) => [`${version.browser} ${version.version}`, version.engine_version!])
+);
+
+const nodeV8Versions = new Map(releases.map((release) => [release.version, release.v8]));
+
+/**
+ * Version of the engine a browser version ships, or null when it is not known
+ */
+function getEngineVersion(family: string, version: string, engine: string): string | null {
+  // Versions such as "15.2-15.3" cover several releases, so the oldest one sets the minimum
+  const oldest = version.split('-')[0];
+
+  if (family === 'node') {
+    return nodeV8Versions.get(version) ?? null;
+  }
+  if (engine === 'Trident') {
+    return TRIDENT_VERSIONS[oldest] ?? null;
+  }
+  if (ENGINE_VERSIONED_FAMILIES.includes(family)) {
+    return oldest;
+  }
+  const downstream = DOWNSTREAM_BROWSERS[family];
+  if (downstream && engine !== 'Presto') {
+    return downstreamEngineVersions.get(`${downstream} ${oldest}`) ??
+      downstreamEngineVersions.get(`${downstream} ${oldest}.0`) ??
+      null;
+  }
+  return null;
+}
+
+/**
+ * Map a resolved browser (e.g., "samsung 27") to its rendering engine, JavaScript engine and engine version
+ */
+export function getBrowserEngineMapping(browser: string): BrowserEngineMapping {
+  const [family, version] = browser.split(' ');
+  const engine = getBrowserEngine(family, version);
+
+  return {
+    browser,
+    engine,
+    jsEngine: JS_ENGINES[engine] ?? 'unknown',
+    engineVersion: getEngineVersion(family, version, engine)
+  };
+}
+
+/**
+ * Group resolved browsers by engine with the oldest and newest engine versions they require, most browsers first
+ */
+export function summarizeEngines(browsers: string[]): EngineSummary[] {
+  const engines = new Map<string, EngineSummary>();
+
+  for (const browser of browsers) {
+    const mapping = getBrowserEngineMapping(browser);
+    if (!engines.has(mapping.engine)) {
+      engines.set(mapping.engine, {
+        engine: mapping.engine,
+        jsEngine: mapping.jsEngine,
+        minVersion: null,
+        maxVersion: null,
+        count: 0,
+        browsers: []
+      });
+    }
+
+    const summary = engines.get(mapping.engine)!;
+    summary.count++;
+    summary.browsers.push({ browser, engineVersion: mapping.engineVersion });
+
+    const engineVersion = mapping.engineVersion;
+    if (engineVersion !== null) {
+      if (summary.minVersion === null || compareVersions(engineVersion, summary.minVersion) < 0) {
+        summary.minVersion = engineVersion;
+      }
+      if (summary.maxVersion === null || compareVersions(engineVersion, summary.maxVersion) > 0) {
+        summary.maxVersion = engineVersion;
+      }
+    }
+  }
+
+  return [...engines.values()].sort((a, b) => b.count - a.count || a.engine.localeCompare(b.engine));
+}
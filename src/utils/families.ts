@@ -0,0 +1,249 @@
+import browserslist from 'browserslist';
+import { agents } from 'caniuse-lite';
+import releases from 'node-releases/data/processed/envs.json' with { type: 'json' };
+import { BrowserCatalogEntry, BrowserFamilyGroup, BrowserInfo, BrowserVersionDetail, UsageStats } from '../types/index.js';
+
+/**
+ * Rendering engine of each browser family, with the engine of versions up to `legacy.until` where it changed
+ */
+const BROWSER_ENGINES: Record<string, { engine: string; legacy?: { until: number; engine: string } }> = {
+  ie: { engine: 'Trident' },
+  ie_mob: { engine: 'Trident' },
+  edge: { engine: 'Blink', legacy: { until: 18, engine: 'EdgeHTML' } },
+  firefox: { engine: 'Gecko' },
+  and_ff: { engine: 'Gecko' },
+  kaios: { engine: 'Gecko' },
+  chrome: { engine: 'Blink' },
+  and_chr: { engine: 'Blink' },
+  opera: { engine: 'Blink', legacy: { until: 12.1, engine: 'Presto' } },
+  op_mob: { engine: 'Blink', legacy: { until: 12.1, engine: 'Presto' } },
+  op_mini: { engine: 'Presto' },
+  android: { engine: 'Blink', legacy: { until: 4.3, engine: 'WebKit' } },
+  samsung: { engine: 'Blink' },
+  and_uc: { engine: 'Blink' },
+  and_qq: { engine: 'Blink' },
+  baidu: { engine: 'Blink' },
+  safari: { engine: 'WebKit' },
+  ios_saf: { engine: 'WebKit' },
+  bb: { engine: 'WebKit' },
+  node: { engine: 'V8' }
+};
+
+/**
+ * Names people commonly use for a family besides its caniuse display name
+ */
+const COMMON_NAMES: Record<string, string[]> = {
+  ie: ['Internet Explorer'],
+  ie_mob: ['Internet Explorer Mobile'],
+  ios_saf: ['iOS Safari'],
+  and_chr: ['Chrome Android'],
+  and_ff: ['Firefox Android']
+};
+
+const nodeReleaseDates = new Map(releases.map((release) => [release.version, release.date]));
+
+/**
+ * Display name of a browser family (e.g., "Chrome for Android" for and_chr)
+ */
+export function getBrowserDisplayName(family: string): string {
+  return family === 'node' ? 'Node.js' : agents[family]?.browser ?? family;
+}
+
+/**
+ * Rendering engine of a browser version, or "unknown" for families without engine data
+ */
+export function getBrowserEngine(family: string, version: string): string {
+  const entry = BROWSER_ENGINES[family];
+  if (!entry) {
+    return 'unknown';
+  }
+  const legacy = entry.legacy;
+  return legacy && parseFloat(version) <= legacy.until ? legacy.engine : entry.engine;
+}
+
+/**
+ * Compare dotted version numbers numerically
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Release date of a browser version as YYYY-MM-DD, or null when it is unreleased or undated
+ */
+function getReleaseDate(family: string, version: string): string | null {
+  if (family === 'node') {
+    return nodeReleaseDates.get(version) ?? null;
+  }
+  const released = browserslist.data[family]?.releaseDate[version];
+  return released ? new Date(released * 1000).toISOString().slice(0, 10) : null;
+}
+
+/**
+ * Versions of a family in release order, used to decide which versions are consecutive
+ */
+function getKnownVersions(family: string): string[] {
+  return family === 'node' ? browserslist.nodeVersions : browserslist.data[family]?.versions ?? [];
+}
+
+/**
+ * Collapse versions that are consecutive in the family's release order into ranges, newest first
+ */
+function collapseVersionRanges(family: string, versions: string[]): string[] {
+  const known = getKnownVersions(family);
+  const positions = versions
+    .map((version) => ({ version, position: known.indexOf(version) }))
+    .sort((a, b) => a.position - b.position);
+
+  const runs: string[][] = [];
+  for (const [index, { version, position }] of positions.entries()) {
+    const previous = positions[index - 1];
+    if (previous && previous.position !== -1 && position === previous.position + 1) {
+      runs[runs.length - 1].push(version);
+    } else {
+      runs.push([version]);
+    }
+  }
+
+  return runs.reverse().map((run) => {
+    if (run.length === 1) {
+      return `${family} ${run[0]}`;
+    }
+    // Versions such as "15.2-15.3" are already ranges, so join the outer bounds
+    return `${family} ${run[0].split('-')[0]}-${run[run.length - 1].split('-').pop()}`;
+  });
+}
+
+/**
+ * Describe versions of a family with engine, release date, global usage and dead flag. Browserslist caches results
+ * by query and options, so stats of a data snapshot keep its dead browsers apart from those of the bundled data.
+ */
+function describeVersions(family: string, versions: string[], stats?: UsageStats): BrowserVersionDetail[] {
+  const dead = new Set(browserslist('dead', { stats }));
+  const usage = browserslist.usage.global ?? {};
+
+  return versions.map((version) => ({
+    version,
+    engine: getBrowserEngine(family, version),
+    releaseDate: getReleaseDate(family, version),
+    usage: roundUsage(usage[`${family} ${version}`] ?? 0),
+    dead: dead.has(`${family} ${version}`)
+  }));
+}
+
+/**
+ * Group resolved browsers by family with version ranges, engine, release dates, usage and dead flags.
+ * Must run against the same data the browsers were resolved with (e.g., inside withDataSnapshot, given its stats).
+ */
+export function groupBrowsersByFamily(browsers: string[], stats?: UsageStats): BrowserFamilyGroup[] {
+  const usage = browserslist.usage.global ?? {};
+  const families = new Map<string, string[]>();
+
+  for (const browser of browsers) {
+    const [family, version] = browser.split(' ');
+    if (!families.has(family)) {
+      families.set(family, []);
+    }
+    families.get(family)!.push(version);
+  }
+
+  return [...families.entries()].map(([family, versions]) => {
+    const details = describeVersions(family, versions, stats);
+
+    return {
+      family,
+      name: getBrowserDisplayName(family),
+      engine: details[0].engine,
+      ranges: collapseVersionRanges(family, versions),
+      count: versions.length,
+      usage: roundUsage(versions.reduce((total, version) => total + (usage[`${family} ${version}`] ?? 0), 0)),
+      versions: details
+    };
+  });
+}
+
+/**
+ * Names browserslist accepts for a family, followed by its display names
+ */
+function getBrowserAliases(family: string): string[] {
+  const aliases = Object.entries(browserslist.aliases)
+    .filter(([, canonical]) => canonical === family)
+    .map(([alias]) => alias);
+  const names = [getBrowserDisplayName(family), ...(COMMON_NAMES[family] ?? [])];
+  return [...new Set([family, ...aliases, ...names])];
+}
+
+/**
+ * Summarise a browser family: display name, engine, aliases and its oldest and newest released versions
+ */
+function describeFamily(family: string): BrowserCatalogEntry {
+  const versions = getKnownVersions(family);
+  const released = family === 'node' ? versions : browserslist.data[family]?.released ?? [];
+  const newest = released[released.length - 1];
+
+  return {
+    family,
+    name: getBrowserDisplayName(family),
+    engine: getBrowserEngine(family, newest),
+    aliases: getBrowserAliases(family),
+    oldest: versions[0],
+    newest,
+    count: versions.length
+  };
+}
+
+/**
+ * Browser families browserslist has data for, plus Node.js
+ */
+function getFamilies(): string[] {
+  return [...Object.keys(browserslist.data), 'node'];
+}
+
+/**
+ * List every browser family with its aliases and version range
+ */
+export function listBrowserFamilies(): BrowserCatalogEntry[] {
+  return getFamilies().map(describeFamily);
+}
+
+/**
+ * Find the family a browser name or alias refers to (e.g., "ios", "iOS Safari" and "ios_saf" all refer to ios_saf)
+ */
+export function resolveBrowserFamily(name: string): string {
+  const needle = name.trim().toLowerCase();
+  const family = getFamilies().find((candidate) =>
+    getBrowserAliases(candidate).some((alias) => alias.toLowerCase() === needle)
+  );
+  if (!family) {
+    throw new Error(`Unknown browser \`${name}\` (available: ${getFamilies().join(', ')})`);
+  }
+  return family;
+}
+
+/**
+ * Describe a browser family with every known version, newest first
+ */
+export function getBrowserInfo(name: string): BrowserInfo {
+  const family = resolveBrowserFamily(name);
+  const versions = [...getKnownVersions(family)].reverse();
+
+  return {
+    ...describeFamily(family),
+    versions: describeVersions(family, versions)
+  };
+}
+
+/**
+ * Round a usage share to 4 decimal places, enough for the smallest shares caniuse-lite reports
+ */
+function roundUsage(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,196 @@
+import browserslist from 'browserslist';
+import {
+  BrowserslistOptions,
+  EffectiveBrowserslistOptions,
+  LintConfigInput,
+  LintFinding,
+  LintResult,
+  UsageStats
+} from '../types/index.js';
+import {
+  explainBrowserslistQuery,
+  getBrowserslistCoverage,
+  getEffectiveOptions,
+  joinQueryClauses,
+  normalizeRegion,
+  roundPercentage
+} from './browserslist.js';
+import { resolveBrowserslistConfig } from './config.js';
+import { withDataSnapshot } from './snapshot.js';
+
+/**
+ * Coverage percentage below which coverage rules report a finding
+ */
+const DEFAULT_THRESHOLD = 80;
+
+/**
+ * Clause types that select browsers by the usage of a single region
+ */
+const REGIONAL_TYPES = ['popularity_in_place', 'cover_in'];
+
+/**
+ * Clause types selecting the last versions of every browser
+ */
+const LAST_VERSIONS_TYPES = ['last_versions', 'last_major_versions'];
+
+/**
+ * Options lint resolves clauses with: the query's options plus the usage of its data snapshot, if any
+ */
+type ResolveOptions = EffectiveBrowserslistOptions & { stats?: UsageStats };
+
+interface LintQueryOptions {
+  env?: string;
+  options?: BrowserslistOptions;
+  regions: string[];
+  threshold: number;
+}
+
+/**
+ * Lint a single query and return findings ordered by rule
+ */
+function lintQuery(query: string, lint: LintQueryOptions): LintFinding[] {
+  return withDataSnapshot(lint.options?.dataSnapshot, (stats) => lintQueryWithData(query, lint, { ...getEffectiveOptions(lint.options), stats }));
+}
+
+/**
+ * Lint a single query against the browser data currently loaded into browserslist
+ */
+function lintQueryWithData(query: string, lint: LintQueryOptions, opts: ResolveOptions): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const report = (finding: Omit<LintFinding, 'query' | 'env'>) => {
+    findings.push({ ...finding, ...(lint.env !== undefined && { env: lint.env }), query });
+  };
+
+  const nodes = browserslist.parse(query, opts);
+  const { browsers, steps } = explainBrowserslistQuery({ query, options: lint.options });
+  const dead = new Set(browserslist('dead', opts));
+  const clauseAdding = (targets: string[]) => steps.find((step) => step.added.some((b) => targets.includes(b)))?.clause;
+
+  const targetedDead = browsers.filter((browser) => dead.has(browser));
+  if (targetedDead.length > 0 && !nodes.some((node) => node.type === 'dead' && node.not)) {
+    report({
+      ruleId: 'missing-not-dead',
+      severity: 'warning',
+      message: `Query targets ${targetedDead.length} browsers without official support or updates: ${targetedDead.join(', ')}`,
+      suggestion: `${query}, not dead`
+    });
+  }
+
+  const ie = browsers.filter((browser) => browser.startsWith('ie '));
+  if (ie.length > 0) {
+    report({
+      ruleId: 'targets-ie',
+      severity: 'warning',
+      message: `Internet Explorer is still targeted: ${ie.join(', ')}`,
+      clause: clauseAdding(ie),
+      suggestion: `${query}, not ie <= 11`
+    });
+  }
+
+  if (browsers.includes('op_mini all')) {
+    report({
+      ruleId: 'targets-opera-mini',
+      severity: 'warning',
+      message: 'Opera Mini is still targeted and forces fallbacks for most modern features',
+      clause: clauseAdding(['op_mini all']),
+      suggestion: `${query}, not op_mini all`
+    });
+  }
+
+  const positive = nodes.filter((node) => !node.not);
+  if (positive.length > 0 && positive.every((node) => REGIONAL_TYPES.includes(node.type))) {
+    const { coverage } = getBrowserslistCoverage(browsers, { dataSnapshot: lint.options?.dataSnapshot });
+    if (coverage < lint.threshold) {
+      report({
+        ruleId: 'regional-only-coverage',
+        severity: 'warning',
+        message: `Query only selects browsers by regional usage and covers ${roundPercentage(coverage)}% globally, below ${lint.threshold}%`,
+        suggestion: `${query}, cover ${lint.threshold}%`
+      });
+    }
+  }
+
+  if (nodes.length > 1) {
+    const target = [...browsers].sort().join();
+    nodes.forEach((node, index) => {
+      const remaining = nodes.filter((_, i) => i !== index);
+      // The first clause of a query can not be a negation
+      if (remaining[0].not) {
+        return;
+      }
+      const shorter = joinQueryClauses(remaining);
+      if (browserslist(shorter, opts).sort().join() === target) {
+        report({
+          ruleId: 'redundant-clause',
+          severity: 'info',
+          message: `Removing \`${node.query}\` does not change the resolved browsers`,
+          clause: node.query,
+          suggestion: shorter
+        });
+      }
+    });
+  }
+
+  nodes.forEach((node, index) => {
+    if (node.not || !LAST_VERSIONS_TYPES.includes(node.type)) {
+      return;
+    }
+    const obsolete = steps[index].matched.filter((browser) => dead.has(browser) && browsers.includes(browser));
+    if (obsolete.length > 0) {
+      report({
+        ruleId: 'last-versions-obsolete',
+        severity: 'warning',
+        message: `\`${node.query}\` pulls in browsers without official support: ${obsolete.join(', ')}`,
+        clause: node.query,
+        suggestion: joinQueryClauses(nodes.map((n, i) => i === index ? { ...n, query: `${n.query} and not dead` } : n))
+      });
+    }
+  });
+
+  for (const region of lint.regions) {
+    const { coverage, countryCode } = getBrowserslistCoverage(browsers, { region });
+    if (coverage < lint.threshold) {
+      report({
+        ruleId: 'country-coverage-gap',
+        severity: 'warning',
+        message: `Query covers ${roundPercentage(coverage)}% of users in ${countryCode}, below ${lint.threshold}%`,
+        suggestion: `${query}, cover ${lint.threshold}% in ${countryCode}`
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Lint a browserslist query, or every environment of an in-memory config, and report findings with stable rule ids
+ */
+export function lintBrowserslistConfig(input: LintConfigInput): LintResult {
+  if ((input.query === undefined) === (input.content === undefined)) {
+    throw new Error('Specify either query or content');
+  }
+
+  // Queries would resolve against the snapshot while regional usage always comes from the bundled data
+  if (input.regions?.length && input.options?.dataSnapshot) {
+    throw new Error('Regional coverage is not available for data snapshots');
+  }
+
+  const lint = {
+    options: input.options,
+    regions: (input.regions ?? []).map(normalizeRegion),
+    threshold: input.threshold ?? DEFAULT_THRESHOLD
+  };
+
+  const findings = input.query !== undefined
+    ? lintQuery(input.query, lint)
+    : resolveBrowserslistConfig({ content: input.content!, format: input.format }).envs
+      .flatMap((env) => lintQuery(env.query, { ...lint, env: env.env }));
+
+  return {
+    findings,
+    summary: {
+      warnings: findings.filter((finding) => finding.severity === 'warning').length,
+      info: findings.filter((finding) => finding.severity === 'info').length
+    }
+  };
+}
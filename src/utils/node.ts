@@ -0,0 +1,82 @@
+import releases from 'node-releases/data/processed/envs.json' with { type: 'json' };
+import schedule from 'node-releases/data/release-schedule/release-schedule.json' with { type: 'json' };
+import { BrowserslistQueryInput, NodeQueryResult, NodeReleaseStatus, NodeVersionInfo } from '../types/index.js';
+import { executeBrowserslistQuery } from './browserslist.js';
+
+interface ReleaseLineSchedule {
+  start: string;
+  lts?: string;
+  maintenance?: string;
+  end: string;
+  codename?: string;
+}
+
+const releaseDates = new Map(releases.map((release) => [release.version, release.date]));
+const releaseLines = schedule as Record<string, ReleaseLineSchedule>;
+
+/**
+ * Name of the release line a version belongs to, as used by the Node.js release schedule (e.g., "v18", "v0.12")
+ */
+function getReleaseLine(version: string): string {
+  const [major, minor] = version.split('.');
+  return major === '0' ? `v0.${minor}` : `v${major}`;
+}
+
+/**
+ * Phase of a release line on a given date
+ */
+function getReleaseStatus(line: ReleaseLineSchedule | undefined, today: string): NodeReleaseStatus {
+  if (!line) {
+    return 'unknown';
+  }
+  if (today < line.start) {
+    return 'pending';
+  }
+  if (today >= line.end) {
+    return 'end-of-life';
+  }
+  if (line.maintenance && today >= line.maintenance) {
+    return 'maintenance';
+  }
+  if (line.lts && today >= line.lts) {
+    return 'active-lts';
+  }
+  return 'current';
+}
+
+/**
+ * Describe a Node.js version with its release line, LTS status and end-of-life date
+ */
+export function getNodeVersionInfo(version: string, now: Date = new Date()): NodeVersionInfo {
+  const releaseLine = getReleaseLine(version);
+  const line = releaseLines[releaseLine];
+  const status = getReleaseStatus(line, now.toISOString().slice(0, 10));
+
+  return {
+    version,
+    releaseLine,
+    releaseDate: releaseDates.get(version),
+    lts: Boolean(line?.lts),
+    codename: line?.codename || undefined,
+    status,
+    ltsStart: line?.lts,
+    maintenanceStart: line?.maintenance,
+    endOfLife: line?.end,
+    supported: status !== 'end-of-life' && status !== 'unknown',
+  };
+}
+
+/**
+ * Execute a node query (e.g., "maintained node versions", "node >= 18") and describe each resolved Node.js version
+ */
+export function queryNodeVersions(input: BrowserslistQueryInput, now: Date = new Date()): NodeQueryResult {
+  const result = executeBrowserslistQuery(input);
+  const versions = result.browsers
+    .filter((browser) => browser.startsWith('node '))
+    .map((browser) => getNodeVersionInfo(browser.slice('node '.length), now));
+
+  return {
+    ...result,
+    versions,
+  };
+}
@@ -0,0 +1,202 @@
+import browserslist from 'browserslist';
+import {
+  EffectiveBrowserslistOptions,
+  OptimizedQuery,
+  OptimizedQueryCandidate,
+  OptimizeQueryInput,
+  UsageStats
+} from '../types/index.js';
+import {
+  executeBrowserslistQuery,
+  getBrowserslistCoverage,
+  getEffectiveOptions,
+  joinQueryClauses,
+  roundPercentage
+} from './browserslist.js';
+import { withDataSnapshot } from './snapshot.js';
+
+/**
+ * Options candidate queries resolve with: the query's options plus the usage of its data snapshot, if any
+ */
+type ResolveOptions = EffectiveBrowserslistOptions & { stats?: UsageStats };
+
+/**
+ * Canonical clauses a shorter query is built from
+ */
+const CANONICAL_BASES = [
+  'defaults',
+  ...[0.1, 0.2, 0.25, 0.3, 0.5, 1, 2, 3, 5].map((step) => `> ${step}%`),
+  ...[1, 2, 3, 4].map((n) => `last ${n} versions`),
+  ...[1, 2, 3].map((n) => `last ${n} major versions`),
+  ...[1, 2, 3].map((n) => `last ${n} years`)
+];
+
+/**
+ * Group browsers by family, keeping browserslist's version order
+ */
+function byFamily(browsers: string[]): Map<string, string[]> {
+  const families = new Map<string, string[]>();
+  for (const browser of browsers) {
+    const [family, version] = browser.split(' ');
+    families.set(family, [...(families.get(family) ?? []), version]);
+  }
+  return families;
+}
+
+/**
+ * Resolve a query, treating queries browserslist rejects as matching nothing
+ */
+function tryResolve(query: string, opts: ResolveOptions): string[] | undefined {
+  try {
+    return browserslist(query, opts);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Clauses adding missing browsers: one range clause per family when it adds nothing else, otherwise one clause per version
+ */
+function additionClauses(missing: string[], target: Set<string>, opts: ResolveOptions): string[] {
+  const clauses: string[] = [];
+  for (const [family, versions] of byFamily(missing)) {
+    const oldest = versions[versions.length - 1].split('-')[0];
+    const newest = versions[0].split('-').pop();
+    const range = [`${family} >= ${oldest}`, `${family} ${oldest} - ${newest}`].find((clause) => {
+      const selected = versions.length > 1 ? tryResolve(clause, opts) : undefined;
+      return selected !== undefined && selected.every((browser) => target.has(browser));
+    });
+    if (range) {
+      clauses.push(range);
+    } else {
+      clauses.push(...versions.map((version) => `${family} ${version.split('-')[0]}`));
+    }
+  }
+  return clauses;
+}
+
+/**
+ * Clauses removing extra browsers: one range clause per family when it removes nothing targeted, otherwise one clause per version
+ */
+function removalClauses(extra: string[], target: Set<string>, opts: ResolveOptions): string[] {
+  const clauses: string[] = [];
+  for (const [family, versions] of byFamily(extra)) {
+    const newest = versions[0].split('-').pop();
+    const range = `${family} <= ${newest}`;
+    const selected = versions.length > 1 ? tryResolve(range, opts) : undefined;
+    if (selected && selected.every((browser) => !target.has(browser))) {
+      clauses.push(`not ${range}`);
+    } else {
+      clauses.push(...versions.map((version) => `not ${family} ${version.split('-')[0]}`));
+    }
+  }
+  return clauses;
+}
+
+/**
+ * Describe how far a candidate query is from the target browser set
+ */
+function evaluate(query: string, target: Set<string>, opts: ResolveOptions): OptimizedQueryCandidate | undefined {
+  const browsers = tryResolve(query, opts);
+  if (!browsers) {
+    return undefined;
+  }
+  const resolved = new Set(browsers);
+  const missing = [...target].filter((browser) => !resolved.has(browser));
+  const extra = browsers.filter((browser) => !target.has(browser));
+  return {
+    query,
+    clauses: browserslist.parse(query, opts).length,
+    count: browsers.length,
+    exact: missing.length === 0 && extra.length === 0,
+    missing,
+    extra,
+    difference: roundPercentage(getBrowserslistCoverage([...missing, ...extra]).coverage)
+  };
+}
+
+/**
+ * Drop clauses one by one while the resolved browsers stay the same
+ */
+function removeRedundantClauses(query: string, target: Set<string>, opts: ResolveOptions) {
+  let nodes = browserslist.parse(query, opts);
+  const redundant: string[] = [];
+
+  for (const node of [...nodes]) {
+    const remaining = nodes.filter((other) => other !== node);
+    if (remaining.length === 0 || remaining[0].not) {
+      continue;
+    }
+    if (evaluate(joinQueryClauses(remaining), target, opts)?.exact) {
+      nodes = remaining;
+      redundant.push(node.query);
+    }
+  }
+
+  return { query: joinQueryClauses(nodes), redundant };
+}
+
+/**
+ * Find the shortest query from a canonical clause vocabulary that resolves to the same browsers,
+ * or a shorter one whose difference stays within the tolerance
+ */
+export function optimizeBrowserslistQuery(input: OptimizeQueryInput): OptimizedQuery {
+  // Candidates must resolve against the same data as the target, so the whole search runs inside the snapshot
+  return withDataSnapshot(input.options?.dataSnapshot, (stats) => {
+    const original = executeBrowserslistQuery(input);
+    const opts: ResolveOptions = { ...getEffectiveOptions(input.options), stats };
+    const target = new Set(original.browsers);
+    const tolerance = input.tolerance ?? 0;
+
+    const reduced = removeRedundantClauses(input.query, target, opts);
+    const candidates: OptimizedQueryCandidate[] = [];
+    for (const query of [reduced.query, additionClauses(original.browsers, target, opts).join(', ')]) {
+      const candidate = evaluate(query, target, opts);
+      if (candidate) {
+        candidates.push(candidate);
+      }
+    }
+
+    for (const base of CANONICAL_BASES) {
+      for (const query of [base, `${base}, not dead`]) {
+        const approximate = evaluate(query, target, opts);
+        if (!approximate || approximate.count === approximate.extra.length) {
+          continue;
+        }
+        candidates.push(approximate);
+        if (!approximate.exact) {
+          const fixed = [
+            query,
+            ...additionClauses(approximate.missing, target, opts),
+            ...removalClauses(approximate.extra, target, opts)
+          ].join(', ');
+          const exact = evaluate(fixed, target, opts);
+          if (exact) {
+            candidates.push(exact);
+          }
+        }
+      }
+    }
+
+    const shortest = (a: OptimizedQueryCandidate, b: OptimizedQueryCandidate) =>
+      a.clauses - b.clauses || a.query.length - b.query.length;
+    const exact = candidates.filter((candidate) => candidate.exact).sort(shortest)[0];
+    if (!exact) {
+      throw new Error(`Failed to optimize query: no candidate resolves to the browsers of \`${input.query}\``);
+    }
+    const withinTolerance = candidates
+      .filter((candidate) => !candidate.exact && candidate.difference <= tolerance && candidate.clauses < exact.clauses)
+      .sort((a, b) => shortest(a, b) || a.difference - b.difference)[0];
+
+    return {
+      original: {
+        query: input.query,
+        clauses: browserslist.parse(input.query, opts).length,
+        count: original.count
+      },
+      optimized: withinTolerance ?? exact,
+      redundantClauses: reduced.redundant,
+      tolerance
+    };
+  });
+}
@@ -0,0 +1,102 @@
+import { RegionBrowserUsage, RegionInfo, RegionType } from '../types/index.js';
+import { getBrowserDisplayName } from './families.js';
+import { getRegionUsage, USAGE_REGION_CODES } from './usage.js';
+
+/**
+ * Every region a coverage or popularity query can name: countries, continents and the world ("alt-ww")
+ */
+export const REGION_CODES = USAGE_REGION_CODES;
+
+/**
+ * Country codes caniuse-lite has usage data for
+ */
+export const COUNTRY_CODES = REGION_CODES.filter((code) => !code.startsWith('alt-'));
+
+/**
+ * Names of the continent and world regions, which Intl does not know
+ */
+const CONTINENT_NAMES: Record<string, string> = {
+  'alt-af': 'Africa',
+  'alt-an': 'Antarctica',
+  'alt-as': 'Asia',
+  'alt-eu': 'Europe',
+  'alt-na': 'North America',
+  'alt-oc': 'Oceania',
+  'alt-sa': 'South America',
+  'alt-ww': 'Worldwide'
+};
+
+const DEFAULT_TOP_BROWSERS = 10;
+const DEFAULT_TOP_BROWSERS_LISTED = 3;
+
+const countryNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+/**
+ * Find the region code a code or English name refers to (e.g., "gb", "United Kingdom" and "GB" all refer to GB)
+ */
+export function resolveRegionCode(region: string): string {
+  const needle = region.trim().toLowerCase();
+  const code = REGION_CODES.find((candidate) =>
+    candidate.toLowerCase() === needle || getRegionName(candidate).toLowerCase() === needle
+  );
+  if (!code) {
+    throw new Error(`Unknown region \`${region}\` (use a country code such as "US" or a continent such as "alt-eu")`);
+  }
+  return code;
+}
+
+function getRegionName(code: string): string {
+  return CONTINENT_NAMES[code] ?? countryNames.of(code) ?? code;
+}
+
+function getRegionType(code: string): RegionType {
+  if (code === 'alt-ww') {
+    return 'world';
+  }
+  return code.startsWith('alt-') ? 'continent' : 'country';
+}
+
+/**
+ * Browser versions with the highest usage share in a region
+ */
+function getTopBrowsers(code: string, limit: number): RegionBrowserUsage[] {
+  const usage = Object.entries(getRegionUsage(code)).flatMap(([family, versions]) =>
+    Object.entries(versions).map(([version, share]) => ({ family, version, share }))
+  );
+
+  return usage
+    .filter(({ share }) => share > 0)
+    .sort((a, b) => b.share - a.share)
+    .slice(0, limit)
+    .map(({ family, version, share }) => ({
+      browser: `${family} ${version}`,
+      name: `${getBrowserDisplayName(family)} ${version}`,
+      usage: Math.round(share * 100) / 100
+    }));
+}
+
+/**
+ * Describe a region with its name, type and the browser versions most used there
+ */
+export function getRegionInfo(region: string, limit: number = DEFAULT_TOP_BROWSERS): RegionInfo {
+  return describeRegion(resolveRegionCode(region), limit);
+}
+
+function describeRegion(code: string, limit: number): RegionInfo {
+  return {
+    code,
+    name: getRegionName(code),
+    type: getRegionType(code),
+    topBrowsers: getTopBrowsers(code, limit)
+  };
+}
+
+/**
+ * List every region browserslist accepts, optionally filtered by code or name, with its most used browsers
+ */
+export function listRegions(search?: string, limit: number = DEFAULT_TOP_BROWSERS_LISTED): RegionInfo[] {
+  const needle = search?.trim().toLowerCase();
+  return REGION_CODES
+    .filter((code) => !needle || code.toLowerCase().includes(needle) || getRegionName(code).toLowerCase().includes(needle))
+    .map((code) => describeRegion(code, limit));
+}
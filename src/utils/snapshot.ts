@@ -0,0 +1,178 @@
+import browserslist from 'browserslist';
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import {
+  DataSnapshot,
+  DataSnapshotReference,
+  DataSnapshotSchema,
+  DataSnapshotSummary,
+  UsageStats
+} from '../types/index.js';
+import { getDataInfo } from './data.js';
+
+/**
+ * Snapshots loaded by name
+ */
+const snapshots = new Map<string, DataSnapshot>();
+
+/**
+ * Capture the browser data browserslist currently resolves queries against
+ */
+export function captureDataSnapshot(now: Date = new Date()): DataSnapshot {
+  const info = getDataInfo();
+  const agents: DataSnapshot['agents'] = {};
+
+  const global = browserslist.usage.global ?? {};
+
+  for (const [name, data] of Object.entries(browserslist.data)) {
+    if (!data) {
+      continue;
+    }
+    const usage: Record<string, number> = {};
+    const releaseDate: Record<string, number | null> = {};
+    for (const version of data.versions) {
+      const share = global[`${name} ${version}`];
+      if (share !== undefined) {
+        usage[version] = share;
+      }
+      releaseDate[version] = data.releaseDate[version] ?? null;
+    }
+    agents[name] = {
+      versions: [...data.versions],
+      released: [...data.released],
+      releaseDate,
+      usage
+    };
+  }
+
+  return {
+    capturedAt: now.toISOString(),
+    browserslist: info.browserslist,
+    caniuseLite: info.caniuseLite.version,
+    dataDate: info.caniuseLite.dataDate,
+    agents,
+    nodeVersions: [...browserslist.nodeVersions]
+  };
+}
+
+/**
+ * Capture the current browser data to a JSON file
+ */
+export async function saveDataSnapshot(file: string): Promise<DataSnapshot> {
+  const snapshot = captureDataSnapshot();
+  await writeFile(file, `${JSON.stringify(snapshot, null, 2)}\n`);
+  return snapshot;
+}
+
+/**
+ * Make a snapshot available under a name
+ */
+export function registerDataSnapshot(name: string, snapshot: DataSnapshot): void {
+  snapshots.set(name, DataSnapshotSchema.parse(snapshot));
+}
+
+/**
+ * Load every *.json snapshot in a directory, named after the file without its extension
+ */
+export async function loadDataSnapshots(dir: string): Promise<string[]> {
+  const files = (await readdir(dir)).filter((file) => file.endsWith('.json')).sort();
+  const names: string[] = [];
+
+  for (const file of files) {
+    const name = basename(file, '.json');
+    try {
+      registerDataSnapshot(name, JSON.parse(await readFile(join(dir, file), 'utf8')));
+    } catch (error) {
+      throw new Error(`Invalid data snapshot ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    names.push(name);
+  }
+
+  return names;
+}
+
+/**
+ * Names of the loaded snapshots
+ */
+export function listDataSnapshots(): string[] {
+  return [...snapshots.keys()].sort();
+}
+
+/**
+ * Look up a loaded snapshot by name, or validate an inline one
+ */
+function resolveDataSnapshot(reference: DataSnapshotReference): { snapshot: DataSnapshot; name?: string } {
+  if (typeof reference !== 'string') {
+    return { snapshot: DataSnapshotSchema.parse(reference) };
+  }
+
+  const snapshot = snapshots.get(reference);
+  if (!snapshot) {
+    const available = listDataSnapshots();
+    throw new Error(
+      `Unknown data snapshot \`${reference}\`` +
+      (available.length > 0 ? ` (available: ${available.join(', ')})` : ' (no snapshots are loaded)')
+    );
+  }
+  return { snapshot, name: reference };
+}
+
+/**
+ * Run fn with browserslist resolving queries against a data snapshot, then restore the bundled data.
+ * fn receives the snapshot's usage as custom stats: browserslist caches results by query and options,
+ * so passing them keeps snapshot results apart from results computed on the bundled data.
+ */
+export function withDataSnapshot<T>(
+  reference: DataSnapshotReference | undefined,
+  fn: (stats?: UsageStats, summary?: DataSnapshotSummary) => T
+): T {
+  if (reference === undefined) {
+    return fn();
+  }
+
+  const { snapshot, name } = resolveDataSnapshot(reference);
+  const data: typeof browserslist.data = {};
+  const usage: Record<string, number> = {};
+  const versionAliases: typeof browserslist.versionAliases = {};
+  const stats: UsageStats = {};
+
+  for (const [browser, agent] of Object.entries(snapshot.agents)) {
+    data[browser] = {
+      name: browser,
+      versions: agent.versions,
+      released: agent.released,
+      releaseDate: agent.releaseDate
+    };
+    const aliases: Record<string, string> = {};
+    for (const version of agent.versions) {
+      for (const part of version.includes('-') ? version.split('-') : []) {
+        aliases[part] = version;
+      }
+    }
+    versionAliases[browser] = aliases;
+    for (const [version, share] of Object.entries(agent.usage)) {
+      usage[`${browser} ${version}`] = share;
+    }
+    stats[browser] = agent.usage;
+  }
+
+  const bundled = {
+    data: browserslist.data,
+    usage: browserslist.usage.global,
+    versionAliases: browserslist.versionAliases,
+    nodeVersions: browserslist.nodeVersions
+  };
+
+  browserslist.data = data;
+  browserslist.usage.global = usage;
+  browserslist.versionAliases = versionAliases;
+  browserslist.nodeVersions = snapshot.nodeVersions;
+  try {
+    return fn(stats, { ...(name && { name }), capturedAt: snapshot.capturedAt, dataDate: snapshot.dataDate });
+  } finally {
+    browserslist.data = bundled.data;
+    browserslist.usage.global = bundled.usage;
+    browserslist.versionAliases = bundled.versionAliases;
+    browserslist.nodeVersions = bundled.nodeVersions;
+  }
+}
@@ -0,0 +1,91 @@
+import { QueryCandidate, QuerySuggestions, SuggestQueryInput, UsageStats } from '../types/index.js';
+import { executeBrowserslistQuery, getBrowserslistCoverage, normalizeRegion, roundPercentage } from './browserslist.js';
+import { BrowserslistQueryError, diagnoseQueryError } from './diagnostics.js';
+import { getRegionUsage } from './usage.js';
+
+/**
+ * Usage thresholds tried for popularity candidates
+ */
+const POPULARITY_STEPS = [0.1, 0.2, 0.25, 0.5, 1, 2];
+
+/**
+ * Version counts tried for "last N versions" candidates
+ */
+const LAST_VERSIONS_STEPS = [1, 2, 3];
+
+/**
+ * Build the base clauses to try, from the most to the least coverage-driven, with place (e.g., " in JP") scoping
+ * the usage-based ones
+ */
+function baseClauses(coverage: number, place = ''): string[] {
+  return [
+    `cover ${coverage}%${place}`,
+    ...POPULARITY_STEPS.map((step) => `> ${step}%${place}`),
+    ...LAST_VERSIONS_STEPS.map((n) => `last ${n} versions`),
+    'defaults'
+  ];
+}
+
+/**
+ * Usage of a region, failing with the diagnostic a query naming an unknown region gets
+ */
+function regionStats(countryCode: string): UsageStats {
+  try {
+    return getRegionUsage(countryCode);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new BrowserslistQueryError(`Failed to suggest queries: ${message}`, diagnoseQueryError(message));
+  }
+}
+
+/**
+ * Propose candidate queries for a target coverage, ranked by whether they meet it and by versions targeted
+ */
+export function suggestBrowserslistQueries(input: SuggestQueryInput): QuerySuggestions {
+  const countryCode = input.region ? normalizeRegion(input.region) : undefined;
+  const mustInclude = input.mustInclude ?? [];
+  const mustExclude = input.mustExclude ?? [];
+  const conflicts = mustInclude.filter((clause) => mustExclude.includes(clause));
+  if (conflicts.length > 0) {
+    throw new Error(`Browsers can not be both included and excluded: ${conflicts.join(', ')}`);
+  }
+
+  const modifiers = [
+    ...(input.excludeDead ?? true ? ['not dead'] : []),
+    ...mustExclude.map((clause) => `not ${clause}`),
+    // Included browsers come last so no exclusion can drop them again
+    ...mustInclude
+  ];
+
+  // Regional clauses resolve against the region's usage passed as custom stats, which, unlike "in JP", the
+  // client-side browserslist build of the Worker supports as well
+  const stats = countryCode ? regionStats(countryCode) : undefined;
+  const resolvable = baseClauses(input.coverage, countryCode && ' in my stats');
+
+  const seen = new Map<string, QueryCandidate>();
+  baseClauses(input.coverage, countryCode && ` in ${countryCode}`).forEach((base, index) => {
+    const query = [base, ...modifiers].join(', ');
+    const { browsers, count } = executeBrowserslistQuery({ query: [resolvable[index], ...modifiers].join(', ') }, stats);
+    const coverage = roundPercentage(getBrowserslistCoverage(browsers, { region: countryCode }).coverage);
+    const key = [...browsers].sort().join();
+
+    // Keep the first (most direct) query for each distinct browser set
+    if (!seen.has(key)) {
+      seen.set(key, { query, count, coverage, meetsTarget: coverage >= input.coverage });
+    }
+  });
+
+  const candidates = [...seen.values()]
+    .sort((a, b) =>
+      Number(b.meetsTarget) - Number(a.meetsTarget) ||
+      (a.meetsTarget ? a.count - b.count : b.coverage - a.coverage) ||
+      b.coverage - a.coverage
+    )
+    .slice(0, input.limit ?? 5);
+
+  return {
+    targetCoverage: input.coverage,
+    ...(countryCode && { countryCode }),
+    candidates
+  };
+}
@@ -0,0 +1,157 @@
+import { BrowserslistQueryInput, BuildTargets, TargetFormat } from '../types/index.js';
+import { executeBrowserslistQuery } from './browserslist.js';
+import { compareVersions } from './families.js';
+
+/**
+ * First Android WebView version that follows Chrome versioning
+ */
+const ANDROID_EVERGREEN_FIRST = 37;
+
+/**
+ * Target names each build tool uses for browserslist families.
+ * Families missing from a table cannot be expressed in that format.
+ */
+const TARGET_NAMES: Record<Exclude<TargetFormat, 'vite'>, Record<string, string>> = {
+  esbuild: {
+    chrome: 'chrome',
+    and_chr: 'chrome',
+    android: 'chrome',
+    edge: 'edge',
+    firefox: 'firefox',
+    and_ff: 'firefox',
+    safari: 'safari',
+    ios_saf: 'ios',
+    opera: 'opera',
+    ie: 'ie',
+    node: 'node'
+  },
+  babel: {
+    chrome: 'chrome',
+    and_chr: 'chrome',
+    android: 'android',
+    edge: 'edge',
+    firefox: 'firefox',
+    and_ff: 'firefox',
+    safari: 'safari',
+    ios_saf: 'ios',
+    opera: 'opera',
+    op_mob: 'opera_mobile',
+    samsung: 'samsung',
+    ie: 'ie',
+    node: 'node'
+  },
+  swc: {
+    chrome: 'chrome',
+    and_chr: 'and_chr',
+    android: 'android',
+    edge: 'edge',
+    firefox: 'firefox',
+    and_ff: 'and_ff',
+    safari: 'safari',
+    ios_saf: 'ios',
+    opera: 'opera',
+    op_mob: 'op_mob',
+    samsung: 'samsung',
+    ie: 'ie',
+    node: 'node'
+  },
+  lightningcss: {
+    chrome: 'chrome',
+    and_chr: 'chrome',
+    android: 'android',
+    edge: 'edge',
+    firefox: 'firefox',
+    and_ff: 'firefox',
+    safari: 'safari',
+    ios_saf: 'ios_saf',
+    opera: 'opera',
+    op_mob: 'opera',
+    samsung: 'samsung',
+    ie: 'ie',
+    ie_mob: 'ie'
+  }
+};
+
+/**
+ * Browser engines Vite accepts in `build.target` (esbuild engines without Node.js and IE)
+ */
+const VITE_ENGINES = ['chrome', 'edge', 'firefox', 'safari', 'ios', 'opera'];
+
+/**
+ * Lowest version of a browserslist version or range (e.g., "16.6-16.7" -> "16.6")
+ */
+function lowerBound(version: string): string {
+  return version.split('-')[0];
+}
+
+/**
+ * Collect the minimum version per build-tool target name, reporting browsers the format cannot express
+ */
+function minimumVersions(browsers: string[], format: Exclude<TargetFormat, 'vite'>) {
+  const versions: Record<string, string> = {};
+  const unmapped: string[] = [];
+
+  for (const browser of browsers) {
+    const [family, range] = browser.split(' ');
+    const version = lowerBound(range);
+    const name: string | undefined = TARGET_NAMES[format][family];
+    // Legacy Android browser versions predate Chrome-based WebView
+    const legacyAndroid = family === 'android' && name === 'chrome' && parseFloat(version) < ANDROID_EVERGREEN_FIRST;
+
+    if (!name || legacyAndroid || !/^\d+(\.\d+)*$/.test(version)) {
+      unmapped.push(browser);
+      continue;
+    }
+
+    if (!versions[name] || compareVersions(version, versions[name]) < 0) {
+      versions[name] = version;
+    }
+  }
+
+  const sorted = Object.fromEntries(Object.entries(versions).sort(([a], [b]) => a.localeCompare(b)));
+  return { versions: sorted, unmapped };
+}
+
+/**
+ * Encode a version as a Lightning CSS integer target: (major << 16) | (minor << 8) | patch
+ */
+export function toLightningCssVersion(version: string): number {
+  const [major = 0, minor = 0, patch = 0] = version.split('.').map(Number);
+  return (major << 16) | (minor << 8) | patch;
+}
+
+/**
+ * Convert a query's resolved browsers into esbuild, Babel, SWC, Lightning CSS and Vite targets
+ */
+export function exportBuildTargets(input: BrowserslistQueryInput): BuildTargets {
+  const result = executeBrowserslistQuery(input);
+  const esbuild = minimumVersions(result.browsers, 'esbuild');
+  const babel = minimumVersions(result.browsers, 'babel');
+  const swc = minimumVersions(result.browsers, 'swc');
+  const lightningcss = minimumVersions(result.browsers, 'lightningcss');
+
+  const esbuildTargets = Object.entries(esbuild.versions).map(([name, version]) => `${name}${version}`);
+  const viteTargets = esbuildTargets.filter((target) => VITE_ENGINES.includes(target.replace(/[\d.]+$/, '')));
+  const viteUnmapped = result.browsers.filter((browser) => {
+    const name = TARGET_NAMES.esbuild[browser.split(' ')[0]];
+    return esbuild.unmapped.includes(browser) || !VITE_ENGINES.includes(name);
+  });
+
+  return {
+    ...result,
+    esbuild: esbuildTargets,
+    babel: babel.versions,
+    swc: swc.versions,
+    lightningcss: Object.fromEntries(
+      Object.entries(lightningcss.versions).map(([name, version]) => [name, toLightningCssVersion(version)])
+    ),
+    vite: viteTargets,
+    unmapped: {
+      esbuild: esbuild.unmapped,
+      babel: babel.unmapped,
+      swc: swc.unmapped,
+      lightningcss: lightningcss.unmapped,
+      vite: viteUnmapped
+    }
+  };
+}
@@ -0,0 +1,311 @@
+import browserslist from 'browserslist';
+import { region as unpackRegion } from 'caniuse-lite';
+import type { PackedRegion } from 'caniuse-lite';
+import AD from 'caniuse-lite/data/regions/AD.js';
+import AE from 'caniuse-lite/data/regions/AE.js';
+import AF from 'caniuse-lite/data/regions/AF.js';
+import AG from 'caniuse-lite/data/regions/AG.js';
+import AI from 'caniuse-lite/data/regions/AI.js';
+import AL from 'caniuse-lite/data/regions/AL.js';
+import AM from 'caniuse-lite/data/regions/AM.js';
+import AO from 'caniuse-lite/data/regions/AO.js';
+import AR from 'caniuse-lite/data/regions/AR.js';
+import AS from 'caniuse-lite/data/regions/AS.js';
+import AT from 'caniuse-lite/data/regions/AT.js';
+import AU from 'caniuse-lite/data/regions/AU.js';
+import AW from 'caniuse-lite/data/regions/AW.js';
+import AX from 'caniuse-lite/data/regions/AX.js';
+import AZ from 'caniuse-lite/data/regions/AZ.js';
+import BA from 'caniuse-lite/data/regions/BA.js';
+import BB from 'caniuse-lite/data/regions/BB.js';
+import BD from 'caniuse-lite/data/regions/BD.js';
+import BE from 'caniuse-lite/data/regions/BE.js';
+import BF from 'caniuse-lite/data/regions/BF.js';
+import BG from 'caniuse-lite/data/regions/BG.js';
+import BH from 'caniuse-lite/data/regions/BH.js';
+import BI from 'caniuse-lite/data/regions/BI.js';
+import BJ from 'caniuse-lite/data/regions/BJ.js';
+import BM from 'caniuse-lite/data/regions/BM.js';
+import BN from 'caniuse-lite/data/regions/BN.js';
+import BO from 'caniuse-lite/data/regions/BO.js';
+import BR from 'caniuse-lite/data/regions/BR.js';
+import BS from 'caniuse-lite/data/regions/BS.js';
+import BT from 'caniuse-lite/data/regions/BT.js';
+import BW from 'caniuse-lite/data/regions/BW.js';
+import BY from 'caniuse-lite/data/regions/BY.js';
+import BZ from 'caniuse-lite/data/regions/BZ.js';
+import CA from 'caniuse-lite/data/regions/CA.js';
+import CD from 'caniuse-lite/data/regions/CD.js';
+import CF from 'caniuse-lite/data/regions/CF.js';
+import CG from 'caniuse-lite/data/regions/CG.js';
+import CH from 'caniuse-lite/data/regions/CH.js';
+import CI from 'caniuse-lite/data/regions/CI.js';
+import CK from 'caniuse-lite/data/regions/CK.js';
+import CL from 'caniuse-lite/data/regions/CL.js';
+import CM from 'caniuse-lite/data/regions/CM.js';
+import CN from 'caniuse-lite/data/regions/CN.js';
+import CO from 'caniuse-lite/data/regions/CO.js';
+import CR from 'caniuse-lite/data/regions/CR.js';
+import CU from 'caniuse-lite/data/regions/CU.js';
+import CV from 'caniuse-lite/data/regions/CV.js';
+import CX from 'caniuse-lite/data/regions/CX.js';
+import CY from 'caniuse-lite/data/regions/CY.js';
+import CZ from 'caniuse-lite/data/regions/CZ.js';
+import DE from 'caniuse-lite/data/regions/DE.js';
+import DJ from 'caniuse-lite/data/regions/DJ.js';
+import DK from 'caniuse-lite/data/regions/DK.js';
+import DM from 'caniuse-lite/data/regions/DM.js';
+import DO from 'caniuse-lite/data/regions/DO.js';
+import DZ from 'caniuse-lite/data/regions/DZ.js';
+import EC from 'caniuse-lite/data/regions/EC.js';
+import EE from 'caniuse-lite/data/regions/EE.js';
+import EG from 'caniuse-lite/data/regions/EG.js';
+import ER from 'caniuse-lite/data/regions/ER.js';
+import ES from 'caniuse-lite/data/regions/ES.js';
+import ET from 'caniuse-lite/data/regions/ET.js';
+import FI from 'caniuse-lite/data/regions/FI.js';
+import FJ from 'caniuse-lite/data/regions/FJ.js';
+import FK from 'caniuse-lite/data/regions/FK.js';
+import FM from 'caniuse-lite/data/regions/FM.js';
+import FO from 'caniuse-lite/data/regions/FO.js';
+import FR from 'caniuse-lite/data/regions/FR.js';
+import GA from 'caniuse-lite/data/regions/GA.js';
+import GB from 'caniuse-lite/data/regions/GB.js';
+import GD from 'caniuse-lite/data/regions/GD.js';
+import GE from 'caniuse-lite/data/regions/GE.js';
+import GF from 'caniuse-lite/data/regions/GF.js';
+import GG from 'caniuse-lite/data/regions/GG.js';
+import GH from 'caniuse-lite/data/regions/GH.js';
+import GI from 'caniuse-lite/data/regions/GI.js';
+import GL from 'caniuse-lite/data/regions/GL.js';
+import GM from 'caniuse-lite/data/regions/GM.js';
+import GN from 'caniuse-lite/data/regions/GN.js';
+import GP from 'caniuse-lite/data/regions/GP.js';
+import GQ from 'caniuse-lite/data/regions/GQ.js';
+import GR from 'caniuse-lite/data/regions/GR.js';
+import GT from 'caniuse-lite/data/regions/GT.js';
+import GU from 'caniuse-lite/data/regions/GU.js';
+import GW from 'caniuse-lite/data/regions/GW.js';
+import GY from 'caniuse-lite/data/regions/GY.js';
+import HK from 'caniuse-lite/data/regions/HK.js';
+import HN from 'caniuse-lite/data/regions/HN.js';
+import HR from 'caniuse-lite/data/regions/HR.js';
+import HT from 'caniuse-lite/data/regions/HT.js';
+import HU from 'caniuse-lite/data/regions/HU.js';
+import ID from 'caniuse-lite/data/regions/ID.js';
+import IE from 'caniuse-lite/data/regions/IE.js';
+import IL from 'caniuse-lite/data/regions/IL.js';
+import IM from 'caniuse-lite/data/regions/IM.js';
+import IN from 'caniuse-lite/data/regions/IN.js';
+import IQ from 'caniuse-lite/data/regions/IQ.js';
+import IR from 'caniuse-lite/data/regions/IR.js';
+import IS from 'caniuse-lite/data/regions/IS.js';
+import IT from 'caniuse-lite/data/regions/IT.js';
+import JE from 'caniuse-lite/data/regions/JE.js';
+import JM from 'caniuse-lite/data/regions/JM.js';
+import JO from 'caniuse-lite/data/regions/JO.js';
+import JP from 'caniuse-lite/data/regions/JP.js';
+import KE from 'caniuse-lite/data/regions/KE.js';
+import KG from 'caniuse-lite/data/regions/KG.js';
+import KH from 'caniuse-lite/data/regions/KH.js';
+import KI from 'caniuse-lite/data/regions/KI.js';
+import KM from 'caniuse-lite/data/regions/KM.js';
+import KN from 'caniuse-lite/data/regions/KN.js';
+import KP from 'caniuse-lite/data/regions/KP.js';
+import KR from 'caniuse-lite/data/regions/KR.js';
+import KW from 'caniuse-lite/data/regions/KW.js';
+import KY from 'caniuse-lite/data/regions/KY.js';
+import KZ from 'caniuse-lite/data/regions/KZ.js';
+import LA from 'caniuse-lite/data/regions/LA.js';
+import LB from 'caniuse-lite/data/regions/LB.js';
+import LC from 'caniuse-lite/data/regions/LC.js';
+import LI from 'caniuse-lite/data/regions/LI.js';
+import LK from 'caniuse-lite/data/regions/LK.js';
+import LR from 'caniuse-lite/data/regions/LR.js';
+import LS from 'caniuse-lite/data/regions/LS.js';
+import LT from 'caniuse-lite/data/regions/LT.js';
+import LU from 'caniuse-lite/data/regions/LU.js';
+import LV from 'caniuse-lite/data/regions/LV.js';
+import LY from 'caniuse-lite/data/regions/LY.js';
+import MA from 'caniuse-lite/data/regions/MA.js';
+import MC from 'caniuse-lite/data/regions/MC.js';
+import MD from 'caniuse-lite/data/regions/MD.js';
+import ME from 'caniuse-lite/data/regions/ME.js';
+import MG from 'caniuse-lite/data/regions/MG.js';
+import MH from 'caniuse-lite/data/regions/MH.js';
+import MK from 'caniuse-lite/data/regions/MK.js';
+import ML from 'caniuse-lite/data/regions/ML.js';
+import MM from 'caniuse-lite/data/regions/MM.js';
+import MN from 'caniuse-lite/data/regions/MN.js';
+import MO from 'caniuse-lite/data/regions/MO.js';
+import MP from 'caniuse-lite/data/regions/MP.js';
+import MQ from 'caniuse-lite/data/regions/MQ.js';
+import MR from 'caniuse-lite/data/regions/MR.js';
+import MS from 'caniuse-lite/data/regions/MS.js';
+import MT from 'caniuse-lite/data/regions/MT.js';
+import MU from 'caniuse-lite/data/regions/MU.js';
+import MV from 'caniuse-lite/data/regions/MV.js';
+import MW from 'caniuse-lite/data/regions/MW.js';
+import MX from 'caniuse-lite/data/regions/MX.js';
+import MY from 'caniuse-lite/data/regions/MY.js';
+import MZ from 'caniuse-lite/data/regions/MZ.js';
+import NA from 'caniuse-lite/data/regions/NA.js';
+import NC from 'caniuse-lite/data/regions/NC.js';
+import NE from 'caniuse-lite/data/regions/NE.js';
+import NF from 'caniuse-lite/data/regions/NF.js';
+import NG from 'caniuse-lite/data/regions/NG.js';
+import NI from 'caniuse-lite/data/regions/NI.js';
+import NL from 'caniuse-lite/data/regions/NL.js';
+import NO from 'caniuse-lite/data/regions/NO.js';
+import NP from 'caniuse-lite/data/regions/NP.js';
+import NR from 'caniuse-lite/data/regions/NR.js';
+import NU from 'caniuse-lite/data/regions/NU.js';
+import NZ from 'caniuse-lite/data/regions/NZ.js';
+import OM from 'caniuse-lite/data/regions/OM.js';
+import PA from 'caniuse-lite/data/regions/PA.js';
+import PE from 'caniuse-lite/data/regions/PE.js';
+import PF from 'caniuse-lite/data/regions/PF.js';
+import PG from 'caniuse-lite/data/regions/PG.js';
+import PH from 'caniuse-lite/data/regions/PH.js';
+import PK from 'caniuse-lite/data/regions/PK.js';
+import PL from 'caniuse-lite/data/regions/PL.js';
+import PM from 'caniuse-lite/data/regions/PM.js';
+import PN from 'caniuse-lite/data/regions/PN.js';
+import PR from 'caniuse-lite/data/regions/PR.js';
+import PS from 'caniuse-lite/data/regions/PS.js';
+import PT from 'caniuse-lite/data/regions/PT.js';
+import PW from 'caniuse-lite/data/regions/PW.js';
+import PY from 'caniuse-lite/data/regions/PY.js';
+import QA from 'caniuse-lite/data/regions/QA.js';
+import RE from 'caniuse-lite/data/regions/RE.js';
+import RO from 'caniuse-lite/data/regions/RO.js';
+import RS from 'caniuse-lite/data/regions/RS.js';
+import RU from 'caniuse-lite/data/regions/RU.js';
+import RW from 'caniuse-lite/data/regions/RW.js';
+import SA from 'caniuse-lite/data/regions/SA.js';
+import SB from 'caniuse-lite/data/regions/SB.js';
+import SC from 'caniuse-lite/data/regions/SC.js';
+import SD from 'caniuse-lite/data/regions/SD.js';
+import SE from 'caniuse-lite/data/regions/SE.js';
+import SG from 'caniuse-lite/data/regions/SG.js';
+import SH from 'caniuse-lite/data/regions/SH.js';
+import SI from 'caniuse-lite/data/regions/SI.js';
+import SK from 'caniuse-lite/data/regions/SK.js';
+import SL from 'caniuse-lite/data/regions/SL.js';
+import SM from 'caniuse-lite/data/regions/SM.js';
+import SN from 'caniuse-lite/data/regions/SN.js';
+import SO from 'caniuse-lite/data/regions/SO.js';
+import SR from 'caniuse-lite/data/regions/SR.js';
+import ST from 'caniuse-lite/data/regions/ST.js';
+import SV from 'caniuse-lite/data/regions/SV.js';
+import SY from 'caniuse-lite/data/regions/SY.js';
+import SZ from 'caniuse-lite/data/regions/SZ.js';
+import TC from 'caniuse-lite/data/regions/TC.js';
+import TD from 'caniuse-lite/data/regions/TD.js';
+import TG from 'caniuse-lite/data/regions/TG.js';
+import TH from 'caniuse-lite/data/regions/TH.js';
+import TJ from 'caniuse-lite/data/regions/TJ.js';
+import TL from 'caniuse-lite/data/regions/TL.js';
+import TM from 'caniuse-lite/data/regions/TM.js';
+import TN from 'caniuse-lite/data/regions/TN.js';
+import TO from 'caniuse-lite/data/regions/TO.js';
+import TR from 'caniuse-lite/data/regions/TR.js';
+import TT from 'caniuse-lite/data/regions/TT.js';
+import TV from 'caniuse-lite/data/regions/TV.js';
+import TW from 'caniuse-lite/data/regions/TW.js';
+import TZ from 'caniuse-lite/data/regions/TZ.js';
+import UA from 'caniuse-lite/data/regions/UA.js';
+import UG from 'caniuse-lite/data/regions/UG.js';
+import US from 'caniuse-lite/data/regions/US.js';
+import UY from 'caniuse-lite/data/regions/UY.js';
+import UZ from 'caniuse-lite/data/regions/UZ.js';
+import VA from 'caniuse-lite/data/regions/VA.js';
+import VC from 'caniuse-lite/data/regions/VC.js';
+import VE from 'caniuse-lite/data/regions/VE.js';
+import VG from 'caniuse-lite/data/regions/VG.js';
+import VI from 'caniuse-lite/data/regions/VI.js';
+import VN from 'caniuse-lite/data/regions/VN.js';
+import VU from 'caniuse-lite/data/regions/VU.js';
+import WF from 'caniuse-lite/data/regions/WF.js';
+import WS from 'caniuse-lite/data/regions/WS.js';
+import YE from 'caniuse-lite/data/regions/YE.js';
+import YT from 'caniuse-lite/data/regions/YT.js';
+import ZA from 'caniuse-lite/data/regions/ZA.js';
+import ZM from 'caniuse-lite/data/regions/ZM.js';
+import ZW from 'caniuse-lite/data/regions/ZW.js';
+import altAf from 'caniuse-lite/data/regions/alt-af.js';
+import altAn from 'caniuse-lite/data/regions/alt-an.js';
+import altAs from 'caniuse-lite/data/regions/alt-as.js';
+import altEu from 'caniuse-lite/data/regions/alt-eu.js';
+import altNa from 'caniuse-lite/data/regions/alt-na.js';
+import altOc from 'caniuse-lite/data/regions/alt-oc.js';
+import altSa from 'caniuse-lite/data/regions/alt-sa.js';
+import altWw from 'caniuse-lite/data/regions/alt-ww.js';
+
+/**
+ * Packed usage data of every region caniuse-lite ships, imported statically so bundlers include it
+ */
+const PACKED_REGIONS: Record<string, PackedRegion> = {
+  AD, AE, AF, AG, AI, AL, AM, AO, AR, AS, AT, AU, AW, AX, AZ, BA,
+  BB, BD, BE, BF, BG, BH, BI, BJ, BM, BN, BO, BR, BS, BT, BW, BY,
+  BZ, CA, CD, CF, CG, CH, CI, CK, CL, CM, CN, CO, CR, CU, CV, CX,
+  CY, CZ, DE, DJ, DK, DM, DO, DZ, EC, EE, EG, ER, ES, ET, FI, FJ,
+  FK, FM, FO, FR, GA, GB, GD, GE, GF, GG, GH, GI, GL, GM, GN, GP,
+  GQ, GR, GT, GU, GW, GY, HK, HN, HR, HT, HU, ID, IE, IL, IM, IN,
+  IQ, IR, IS, IT, JE, JM, JO, JP, KE, KG, KH, KI, KM, KN, KP, KR,
+  KW, KY, KZ, LA, LB, LC, LI, LK, LR, LS, LT, LU, LV, LY, MA, MC,
+  MD, ME, MG, MH, MK, ML, MM, MN, MO, MP, MQ, MR, MS, MT, MU, MV,
+  MW, MX, MY, MZ, NA, NC, NE, NF, NG, NI, NL, NO, NP, NR, NU, NZ,
+  OM, PA, PE, PF, PG, PH, PK, PL, PM, PN, PR, PS, PT, PW, PY, QA,
+  RE, RO, RS, RU, RW, SA, SB, SC, SD, SE, SG, SH, SI, SK, SL, SM,
+  SN, SO, SR, ST, SV, SY, SZ, TC, TD, TG, TH, TJ, TL, TM, TN, TO,
+  TR, TT, TV, TW, TZ, UA, UG, US, UY, UZ, VA, VC, VE, VG, VI, VN,
+  VU, WF, WS, YE, YT, ZA, ZM, ZW,
+  'alt-af': altAf,
+  'alt-an': altAn,
+  'alt-as': altAs,
+  'alt-eu': altEu,
+  'alt-na': altNa,
+  'alt-oc': altOc,
+  'alt-sa': altSa,
+  'alt-ww': altWw
+};
+
+/**
+ * Codes of every region caniuse-lite has usage data for: countries, then continents and the world ("alt-ww")
+ */
+export const USAGE_REGION_CODES = Object.keys(PACKED_REGIONS);
+
+const usageCache = new Map<string, browserslist.Stats>();
+
+/**
+ * Usage share of every browser version in a region (e.g., "JP", "alt-as"), shaped as the custom stats
+ * browserslist.coverage() accepts. Unlike coverage(browsers, region), this also works with the client-side
+ * browserslist build the Worker bundles, which cannot load region data.
+ */
+export function getRegionUsage(code: string): browserslist.Stats {
+  const cached = usageCache.get(code);
+  if (cached) {
+    return cached;
+  }
+
+  if (!Object.hasOwn(PACKED_REGIONS, code)) {
+    throw new Error(`Unknown region name \`${code}\`.`);
+  }
+
+  const usage: browserslist.Stats = {};
+  for (const [family, versions] of Object.entries(unpackRegion(PACKED_REGIONS[code]))) {
+    usage[family] = {};
+    for (const [version, share] of Object.entries(versions)) {
+      if (typeof share !== 'number') {
+        continue;
+      }
+      // caniuse-lite reports some mobile browsers as version "0", which browserslist counts as their latest version
+      const key = version === '0' ? browserslist.data[family]?.versions.at(-1) ?? version : version;
+      usage[family][key] = share;
+    }
+  }
+
+  usageCache.set(code, usage);
+  return usage;
+}
@@ -0,0 +1,478 @@
+import browserslist from 'browserslist';
+import {
+  DetectedBrowser,
+  UserAgentMatch,
+  UserAgentMatchInput,
+  UserAgentRegex,
+  UserAgentRegexFamily,
+  UserAgentRegexInput,
+  UserAgentRegexSample
+} from '../types/index.js';
+import { executeBrowserslistQuery } from './browserslist.js';
+import { compareVersions, getBrowserDisplayName } from './families.js';
+import { withDataSnapshot } from './snapshot.js';
+
+/**
+ * A bundled User-Agent rule: the browserslist family it detects, tokens the User-Agent must contain anywhere and a
+ * pattern in which `{version}` stands for the version number. Rules without `{version}` detect every version of the
+ * family (Opera Mini is versioned "all").
+ */
+interface UserAgentRule {
+  family: string;
+  requires?: string[];
+  pattern: string;
+}
+
+/**
+ * Sample User-Agent of a family for the regex self-test, used for versions up to `until` where the format changed
+ */
+interface SampleUserAgent {
+  until?: number;
+  userAgent: (version: string) => string;
+}
+
+/**
+ * Detection rules in priority order: browsers that include another browser's token (e.g., Edge and Samsung Internet
+ * include "Chrome/", Chrome includes "Safari/") must come before it
+ */
+const USER_AGENT_RULES: UserAgentRule[] = [
+  { family: 'op_mini', pattern: String.raw`Opera Mini/` },
+  // Every iOS browser uses the system WebKit, so the iOS version is the Safari version
+  { family: 'ios_saf', requires: [String.raw`(?:iPhone|iPad|iPod)`], pattern: String.raw` OS {version}` },
+  { family: 'kaios', pattern: String.raw`KAIOS/{version}` },
+  { family: 'ie_mob', pattern: String.raw`IEMobile/{version}` },
+  { family: 'op_mob', requires: [String.raw`Android`], pattern: String.raw`OPR/{version}` },
+  { family: 'op_mob', requires: [String.raw`Opera Mobi`], pattern: String.raw`Version/{version}` },
+  { family: 'opera', pattern: String.raw`OPR/{version}` },
+  { family: 'opera', requires: [String.raw`Opera`], pattern: String.raw`Version/{version}` },
+  { family: 'edge', pattern: String.raw`Edge?/{version}` },
+  { family: 'samsung', pattern: String.raw`SamsungBrowser/{version}` },
+  { family: 'and_uc', pattern: String.raw`UCBrowser/{version}` },
+  { family: 'and_qq', pattern: String.raw`MQQBrowser/{version}` },
+  { family: 'baidu', pattern: String.raw`(?:baidubrowser|BIDUBrowser|bdbrowser)/{version}` },
+  { family: 'bb', requires: [String.raw`(?:BlackBerry|BB10)`], pattern: String.raw`Version/{version}` },
+  { family: 'and_ff', requires: [String.raw`Android`], pattern: String.raw`Firefox/{version}` },
+  { family: 'firefox', pattern: String.raw`Firefox/{version}` },
+  { family: 'ie', pattern: String.raw`MSIE {version}` },
+  { family: 'ie', requires: [String.raw`Trident/`], pattern: String.raw`rv:{version}` },
+  // Android WebView marks itself with "; wv)" and follows the Chrome version
+  { family: 'android', requires: [String.raw`Android`, String.raw`; wv\)`], pattern: String.raw`Chrome/{version}` },
+  { family: 'and_chr', requires: [String.raw`Android`], pattern: String.raw`Chrome/{version}` },
+  { family: 'android', requires: [String.raw`Version/\d`, String.raw`Safari`], pattern: String.raw`Android {version}` },
+  { family: 'chrome', pattern: String.raw`(?:Chrome|Chromium)/{version}` },
+  { family: 'safari', requires: [String.raw`Safari/`], pattern: String.raw`Version/{version}` }
+];
+
+/**
+ * Version numbers as User-Agents write them: dotted, or underscored in iOS versions
+ */
+const VERSION_CAPTURE = String.raw`(\d+(?:[._]\d+)*)`;
+
+/**
+ * Pattern of a rule, to match from the start of a User-Agent. Required tokens are lookaheads rather than tokens
+ * chained with `.*`, which would backtrack polynomially on long User-Agents repeating them.
+ */
+function compileRule(rule: UserAgentRule, versionPattern: string): string {
+  const lookaheads = (rule.requires ?? []).map((token) => `(?=.*${token})`).join('');
+  return `${lookaheads}.*?${rule.pattern.replace('{version}', () => versionPattern)}`;
+}
+
+const DETECTION_RULES = USER_AGENT_RULES.map((rule) => ({
+  family: rule.family,
+  regex: new RegExp(`^${compileRule(rule, VERSION_CAPTURE)}`)
+}));
+
+/**
+ * Sample User-Agents of each family, written with the version's zero patch releases (e.g., "Chrome/120.0.0.0")
+ */
+const SAMPLE_USER_AGENTS: Record<string, SampleUserAgent[]> = {
+  ie: [
+    { until: 10, userAgent: (v) => `Mozilla/5.0 (compatible; MSIE ${v}; Windows NT 6.1; Trident/6.0)` },
+    { userAgent: (v) => `Mozilla/5.0 (Windows NT 10.0; WOW64; Trident/7.0; rv:${v}) like Gecko` }
+  ],
+  edge: [
+    {
+      until: 18,
+      userAgent: (v) => `Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/70.0.3538.102 Safari/537.36 Edge/${v}.0`
+    },
+    {
+      userAgent: (v) => `Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/${v}.0.0.0 Safari/537.36 Edg/${v}.0.0.0`
+    }
+  ],
+  firefox: [{ userAgent: (v) => `Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:${v}.0) Gecko/20100101 Firefox/${v}.0` }],
+  chrome: [
+    { userAgent: (v) => `Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/${v}.0.0.0 Safari/537.36` }
+  ],
+  safari: [
+    { userAgent: (v) => `Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/${v} Safari/605.1.15` }
+  ],
+  opera: [
+    { until: 12.1, userAgent: (v) => `Opera/9.80 (Windows NT 6.1; WOW64) Presto/2.12.388 Version/${v}` },
+    {
+      userAgent: (v) => `Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 OPR/${v}.0.0.0`
+    }
+  ],
+  ios_saf: [
+    {
+      userAgent: (v) =>
+        `Mozilla/5.0 (iPhone; CPU iPhone OS ${v.replace(/\./g, '_')} like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/${v} Mobile/15E148 Safari/604.1`
+    }
+  ],
+  op_mini: [{ userAgent: () => 'Opera/9.80 (Android; Opera Mini/36.2.2254/119.132; U; id) Presto/2.12.423 Version/12.16' }],
+  android: [
+    {
+      until: 4.4,
+      userAgent: (v) => `Mozilla/5.0 (Linux; U; Android ${v}; en-us; Nexus S Build/GRK39F) AppleWebKit/533.1 (KHTML, like Gecko) Version/4.0 Mobile Safari/533.1`
+    },
+    {
+      userAgent: (v) =>
+        `Mozilla/5.0 (Linux; Android 13; Pixel 7 Build/TQ3A.230805.001; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/${v}.0.0.0 Mobile Safari/537.36`
+    }
+  ],
+  bb: [
+    {
+      userAgent: (v) => `Mozilla/5.0 (BlackBerry; U; BlackBerry 9900; en) AppleWebKit/534.11+ (KHTML, like Gecko) Version/${v}.0 Mobile Safari/534.11+`
+    }
+  ],
+  op_mob: [
+    { until: 12.1, userAgent: (v) => `Opera/9.80 (Android 2.3.3; Linux; Opera Mobi/ADR-1111101157; U; en) Presto/2.9.201 Version/${v}` },
+    {
+      userAgent: (v) => `Mozilla/5.0 (Linux; Android 13; SM-S918B) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/119.0.0.0 Mobile Safari/537.36 OPR/${v}.0.0.0`
+    }
+  ],
+  and_chr: [
+    { userAgent: (v) => `Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/${v}.0.0.0 Mobile Safari/537.36` }
+  ],
+  and_ff: [{ userAgent: (v) => `Mozilla/5.0 (Android 14; Mobile; rv:${v}.0) Gecko/${v}.0 Firefox/${v}.0` }],
+  ie_mob: [
+    { userAgent: (v) => `Mozilla/5.0 (compatible; MSIE 10.0; Windows Phone 8.0; Trident/6.0; IEMobile/${v}; ARM; Touch; NOKIA; Lumia 920)` }
+  ],
+  and_uc: [
+    {
+      userAgent: (v) =>
+        `Mozilla/5.0 (Linux; U; Android 10; en-US; RMX1971) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/78.0.3904.108 UCBrowser/${v}.0 Mobile Safari/537.36`
+    }
+  ],
+  samsung: [
+    {
+      userAgent: (v) =>
+        `Mozilla/5.0 (Linux; Android 13; SAMSUNG SM-S918B) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/${v} Chrome/125.0.0.0 Mobile Safari/537.36`
+    }
+  ],
+  and_qq: [
+    {
+      userAgent: (v) =>
+        `Mozilla/5.0 (Linux; U; Android 10; zh-cn; V1916A) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/66.0.3359.126 MQQBrowser/${v} Mobile Safari/537.36`
+    }
+  ],
+  baidu: [
+    {
+      userAgent: (v) =>
+        `Mozilla/5.0 (Linux; U; Android 4.4.2; zh-cn) AppleWebKit/534.30 (KHTML, like Gecko) Version/4.0 Mobile Safari/534.30 baidubrowser/${v}`
+    }
+  ],
+  kaios: [{ userAgent: (v) => `Mozilla/5.0 (Mobile; LYF/F300B; Android; rv:48.0) Gecko/48.0 Firefox/48.0 KAIOS/${v}` }]
+};
+
+/**
+ * Whether a detected version falls within a browserslist data version such as "120", "17.4" or "15.2-15.3",
+ * comparing only as many version segments as the data version has
+ */
+function isWithinDataVersion(version: string, dataVersion: string): boolean {
+  if (dataVersion === 'all') {
+    return true;
+  }
+  const [low, high = low] = dataVersion.split('-');
+  const truncated = version.split('.').slice(0, Math.max(low.split('.').length, high.split('.').length)).join('.');
+  return compareVersions(truncated, low) >= 0 && compareVersions(truncated, high) <= 0;
+}
+
+/**
+ * Detect the browserslist family and version of a User-Agent string with the bundled rules
+ */
+export function detectUserAgent(userAgent: string): DetectedBrowser | null {
+  for (const rule of DETECTION_RULES) {
+    const match = userAgent.match(rule.regex);
+    if (!match) {
+      continue;
+    }
+
+    const version = match[1]?.replace(/_/g, '.') ?? 'all';
+    const dataVersion = browserslist.data[rule.family]?.versions.find((candidate) => isWithinDataVersion(version, candidate));
+
+    return {
+      family: rule.family,
+      name: getBrowserDisplayName(rule.family),
+      version,
+      browser: dataVersion ? `${rule.family} ${dataVersion}` : null
+    };
+  }
+  return null;
+}
+
+/**
+ * Targeted versions of a family among resolved browsers
+ */
+function getFamilyTargets(family: string, browsers: string[]): string[] {
+  return browsers.filter((browser) => browser.split(' ')[0] === family);
+}
+
+/**
+ * Whether a detected browser is targeted, or with allowHigherVersions at or above the oldest targeted version of
+ * its family, including versions the bundled data does not know yet
+ */
+function isTargeted(detected: DetectedBrowser, browsers: string[], allowHigherVersions = false): boolean {
+  if (detected.browser !== null && browsers.includes(detected.browser)) {
+    return true;
+  }
+  return allowHigherVersions && getFamilyTargets(detected.family, browsers)
+    .some((browser) => compareVersions(detected.version, browser.split(' ')[1].split('-')[0]) >= 0);
+}
+
+/**
+ * Targeted version of the detected family closest to the detected version, preferring the newer one on ties
+ */
+function findNearestTarget(detected: DetectedBrowser, browsers: string[]): string | null {
+  const distance = (browser: string) => Math.abs(parseFloat(browser.split(' ')[1]) - parseFloat(detected.version));
+
+  return getFamilyTargets(detected.family, browsers).reduce<string | null>((nearest, browser) => {
+    if (nearest === null || distance(browser) < distance(nearest)) {
+      return browser;
+    }
+    return distance(browser) === distance(nearest) && compareVersions(browser.split(' ')[1], nearest.split(' ')[1]) > 0
+      ? browser
+      : nearest;
+  }, null);
+}
+
+/**
+ * Check whether the browser of a User-Agent string is one of the browsers a query targets
+ */
+export function matchUserAgent(input: UserAgentMatchInput): UserAgentMatch {
+  const { browsers } = executeBrowserslistQuery({ query: input.query, options: input.options });
+  // Data versions of the detected browser must come from the data the query was resolved with
+  const detected = withDataSnapshot(input.options?.dataSnapshot, () => detectUserAgent(input.userAgent));
+
+  if (!detected) {
+    return { userAgent: input.userAgent, query: input.query, matched: false, detected: null, nearest: null };
+  }
+
+  const matched = isTargeted(detected, browsers, input.allowHigherVersions);
+
+  return {
+    userAgent: input.userAgent,
+    query: input.query,
+    matched,
+    detected,
+    nearest: matched ? null : findNearestTarget(detected, browsers)
+  };
+}
+
+/**
+ * Releases a browserslist data version covers (e.g., "5.0-5.2" -> "5.0", "5.1", "5.2")
+ */
+function expandDataVersion(dataVersion: string): string[] {
+  const [low, high] = dataVersion.split('-');
+  if (!high) {
+    return [low];
+  }
+  const prefix = low.split('.').slice(0, -1);
+  const first = Number(low.split('.').pop());
+  const last = Number(high.split('.').pop());
+  if (prefix.join('.') !== high.split('.').slice(0, -1).join('.')) {
+    return [low, high];
+  }
+  return Array.from({ length: last - first + 1 }, (_, i) => [...prefix, first + i].join('.'));
+}
+
+/**
+ * Pattern of the decimal integers greater than or equal to n (e.g., 120 -> 120, 12[1-9], 1[3-9]\d, [2-9]\d{2}, ...)
+ */
+function integerAtLeast(n: number): string {
+  const digits = String(n);
+  const alternatives = [digits];
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const digit = Number(digits[i]);
+    if (digit < 9) {
+      const rest = digits.length - i - 1;
+      alternatives.push(`${digits.slice(0, i)}${digit === 8 ? '9' : `[${digit + 1}-9]`}${rest > 1 ? `\\d{${rest}}` : rest ? '\\d' : ''}`);
+    }
+  }
+  alternatives.push(`[1-9]\\d{${digits.length},}`);
+  return `(?:${alternatives.join('|')})`;
+}
+
+/**
+ * Pattern of the versions at or above a version given as numeric segments
+ */
+function versionAtLeast(segments: number[]): string {
+  const [first, ...rest] = segments;
+  if (rest.length === 0) {
+    return `${integerAtLeast(first)}(?!\\d)`;
+  }
+  return `(?:${first}[._]${versionAtLeast(rest)}|${integerAtLeast(first + 1)}(?!\\d))`;
+}
+
+/**
+ * Pattern of one version. Ignoring patches, any release of the version matches (17.2 matches 17.2.1); otherwise
+ * its patch must be zero or absent (17.2 matches 17.2 and 17.2.0), and later build segments are not checked.
+ */
+function versionExactly(segments: number[], ignorePatch: boolean): string {
+  if (ignorePatch) {
+    return `${segments.join('[._]')}(?!\\d)`;
+  }
+
+  const padded = [...segments, 0, 0].slice(0, 3);
+  let pattern = '(?!\\d)';
+  for (let i = 2; i >= 1; i--) {
+    const segment = `[._]${padded[i]}${pattern}`;
+    // Trailing zero segments may be left out, as long as no other segment follows in their place
+    pattern = padded.slice(i).every((value) => value === 0) ? `(?:${segment}|(?![._]?\\d))` : segment;
+  }
+  return `${padded[0]}${pattern}`;
+}
+
+/**
+ * Pattern of the targeted versions of a family
+ */
+function familyVersionPattern(versions: string[], allowHigherVersions: boolean, ignorePatch: boolean): string {
+  if (versions.includes('all')) {
+    return String.raw`\d+(?:[._]\d+)*`;
+  }
+
+  const segmentsOf = (version: string) => version.split('.').map(Number).slice(0, ignorePatch ? 2 : 3);
+
+  if (allowHigherVersions) {
+    const oldest = versions.map((version) => version.split('-')[0]).sort(compareVersions)[0];
+    const segments = segmentsOf(oldest);
+    while (segments.length > 1 && segments[segments.length - 1] === 0) {
+      segments.pop();
+    }
+    return versionAtLeast(segments);
+  }
+
+  const alternatives = versions.flatMap(expandDataVersion).map((version) => versionExactly(segmentsOf(version), ignorePatch));
+  return `(?:${[...new Set(alternatives)].join('|')})`;
+}
+
+/**
+ * Pattern of a rule with the given versions. It excludes User-Agents that an earlier rule of another family detects,
+ * so Edge does not match as Chrome.
+ */
+function rulePattern(index: number, versionPattern: string): string {
+  const rule = USER_AGENT_RULES[index];
+  const exclusions = USER_AGENT_RULES.slice(0, index)
+    .filter((candidate) => candidate.family !== rule.family)
+    .map((candidate) => `(?!${compileRule(candidate, String.raw`\d`)})`);
+  return `${exclusions.join('')}${compileRule(rule, versionPattern)}`;
+}
+
+/**
+ * Sample User-Agent of a family at a version, or null when there is no sample for the family
+ */
+function buildSampleUserAgent(family: string, version: string): string | null {
+  const release = version.split('-')[0];
+  const sample = SAMPLE_USER_AGENTS[family]?.find((candidate) => candidate.until === undefined || parseFloat(release) <= candidate.until);
+  return sample ? sample.userAgent(release) : null;
+}
+
+/**
+ * Browsers to test the regex with: per targeted family the newest targeted version and its untargeted neighbours
+ * (a future version with allowHigherVersions), then the newest release of every untargeted family
+ */
+function selectSampleBrowsers(browsers: string[], families: UserAgentRegexFamily[], allowHigherVersions: boolean): string[] {
+  const samples: string[] = [];
+
+  for (const { family, versions } of families) {
+    const released = browserslist.data[family]?.released ?? [];
+    const positions = versions.map((version) => released.indexOf(version)).filter((position) => position !== -1);
+    samples.push(`${family} ${versions[0]}`);
+    if (positions.length === 0) {
+      continue;
+    }
+
+    const before = released[Math.min(...positions) - 1];
+    const after = released[Math.max(...positions) + 1];
+    if (before && !versions.includes(before)) {
+      samples.push(`${family} ${before}`);
+    }
+    if (allowHigherVersions) {
+      const newest = released[released.length - 1].split('-')[0];
+      samples.push(`${family} ${parseInt(newest, 10) + 1}`);
+    } else if (after && !versions.includes(after)) {
+      samples.push(`${family} ${after}`);
+    }
+  }
+
+  const targeted = new Set(families.map(({ family }) => family));
+  for (const family of Object.keys(SAMPLE_USER_AGENTS).filter((candidate) => !targeted.has(candidate))) {
+    const released = browserslist.data[family]?.released ?? [];
+    if (released.length > 0) {
+      samples.push(`${family} ${released[released.length - 1]}`);
+    }
+  }
+
+  return [...new Set(samples)];
+}
+
+/**
+ * Compile the browsers a query targets into a regular expression matching their User-Agents, with a pattern per
+ * family and a self-test against sample User-Agents
+ */
+export function generateUserAgentRegex(input: UserAgentRegexInput): UserAgentRegex {
+  const allowHigherVersions = input.allowHigherVersions ?? false;
+  const ignorePatch = input.ignorePatch ?? true;
+  const { browsers } = executeBrowserslistQuery({ query: input.query, options: input.options });
+
+  const families: UserAgentRegexFamily[] = [];
+  const alternatives: string[] = [];
+  const covered = new Set<string>();
+
+  for (const family of new Set(browsers.map((browser) => browser.split(' ')[0]))) {
+    // Unnumbered versions such as "safari TP" have no version a User-Agent could show
+    const versions = getFamilyTargets(family, browsers)
+      .map((browser) => browser.split(' ')[1])
+      .filter((version) => version === 'all' || /^\d/.test(version));
+    const indexes = USER_AGENT_RULES.flatMap((rule, index) => (rule.family === family ? [index] : []));
+    if (versions.length === 0 || indexes.length === 0) {
+      continue;
+    }
+
+    const versionPattern = familyVersionPattern(versions, allowHigherVersions, ignorePatch);
+    const patterns = indexes.map((index) => rulePattern(index, versionPattern));
+    alternatives.push(...patterns);
+    families.push({ family, name: getBrowserDisplayName(family), versions, pattern: `^(?:${patterns.join('|')})` });
+    versions.forEach((version) => covered.add(`${family} ${version}`));
+  }
+
+  // A query without any User-Agent browser (e.g., only Node.js) compiles to a regex that never matches
+  const regex = alternatives.length > 0 ? `^(?:${alternatives.join('|')})` : '(?!)';
+  const compiled = new RegExp(regex);
+
+  const samples = withDataSnapshot(input.options?.dataSnapshot, () => selectSampleBrowsers(browsers, families, allowHigherVersions)
+    .flatMap((browser): UserAgentRegexSample[] => {
+      const [family, version] = browser.split(' ');
+      const userAgent = buildSampleUserAgent(family, version);
+      if (userAgent === null) {
+        return [];
+      }
+      const detected = detectUserAgent(userAgent);
+      return [{
+        browser,
+        userAgent,
+        expected: detected !== null && isTargeted(detected, browsers, allowHigherVersions),
+        matched: compiled.test(userAgent)
+      }];
+    }));
+
+  return {
+    query: input.query,
+    regex,
+    families,
+    skipped: browsers.filter((browser) => !covered.has(browser)),
+    selfTest: {
+      passed: samples.every((sample) => sample.expected === sample.matched),
+      samples
+    }
+  };
+}